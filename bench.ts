@@ -0,0 +1,6 @@
+// Runs the spatial hash benchmark headless in Node: `npm run bench`.
+// bench.html runs the same thing in a browser.
+
+import { runSpatialHashBench } from './src/spatial-hash.bench.ts';
+
+runSpatialHashBench((line) => console.log(line));
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureExtractor, magnitudeSpectrum } from './audio-features.ts';
+import { createRandom } from './random.ts';
+
+const FRAME = 1024;
+const RATE = 44100;
+const FPS = 60;
+
+function sine(hz: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length: FRAME }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / RATE));
+}
+
+const random = createRandom(1);
+function noise(amplitude = 0.05): Float32Array {
+  return Float32Array.from({ length: FRAME }, () => (random() * 2 - 1) * amplitude);
+}
+
+function impulse(): Float32Array {
+  const samples = noise();
+  for (let i = FRAME / 2 - 8; i < FRAME / 2 + 8; i++) samples[i] = i % 2 ? 1 : -1;
+  return samples;
+}
+
+function mix(...buffers: Float32Array[]): Float32Array {
+  return Float32Array.from({ length: FRAME }, (_, i) => buffers.reduce((sum, b) => sum + b[i], 0));
+}
+
+/** Feeds `frames` buffers from `make`, returning the last features and how many onsets fired */
+function feed(extractor: FeatureExtractor, make: () => Float32Array, frames: number, start = 0) {
+  let onsets = 0;
+  for (let f = 0; f < frames; f++) {
+    if (extractor.process(make(), (start + f) / FPS).onset) onsets++;
+  }
+  return { features: { ...extractor.features }, onsets };
+}
+
+describe('magnitudeSpectrum', () => {
+  it('peaks at the bin of a pure tone', () => {
+    const bin = 40;
+    const out = new Float32Array(FRAME / 2);
+    magnitudeSpectrum(sine((bin * RATE) / FRAME), out);
+    const peak = out.indexOf(Math.max(...out));
+    expect(peak).toBe(bin);
+  });
+});
+
+describe('FeatureExtractor', () => {
+  it('lights the band a tone falls in over a noise background', () => {
+    for (const [hz, band] of [[80, 'bass'], [800, 'mid'], [5000, 'treble']] as const) {
+      const extractor = new FeatureExtractor(FRAME, RATE);
+      feed(extractor, () => noise(), 60);
+      const { features } = feed(extractor, () => mix(noise(), sine(hz)), 10, 60);
+      const others = (['bass', 'mid', 'treble'] as const).filter((b) => b !== band);
+      for (const other of others) expect(features[band], `${hz} Hz`).toBeGreaterThan(features[other]);
+      expect(features[band]).toBeGreaterThan(0.8);
+    }
+  });
+
+  it('follows loudness', () => {
+    const extractor = new FeatureExtractor(FRAME, RATE);
+    const quiet = feed(extractor, () => noise(0.01), 60).features.level;
+    const loud = feed(extractor, () => noise(0.4), 10, 60).features.level;
+    expect(loud).toBeGreaterThan(0.8);
+    expect(quiet).toBeLessThan(loud);
+  });
+
+  it('finds no onsets in steady noise', () => {
+    const extractor = new FeatureExtractor(FRAME, RATE);
+    feed(extractor, () => noise(), 60);
+    expect(feed(extractor, () => noise(), 120, 60).onsets).toBe(0);
+  });
+
+  it('fires an onset on an impulse, once per refractory window', () => {
+    const extractor = new FeatureExtractor(FRAME, RATE);
+    feed(extractor, () => noise(), 60);
+    expect(extractor.process(impulse(), 60 / FPS).onset).toBe(true);
+    expect(extractor.features.level).toBe(1);
+    // Within 0.12 s of the first — ignored however sharp
+    expect(extractor.process(noise(), 61 / FPS).onset).toBe(false);
+    expect(extractor.process(impulse(), 62 / FPS).onset).toBe(false);
+  });
+});
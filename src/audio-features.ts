@@ -0,0 +1,176 @@
+// ─── Audio Features ───────────────────────────────────────
+// Band energies and onset detection from raw time-domain frames. Has no
+// Web Audio dependency: the browser feeds it AnalyserNode samples, and
+// tests can feed it synthetic buffers offline.
+
+export interface AudioFeatures {
+  /** 20–250 Hz, 250–2000 Hz, 2–10 kHz — each 0–1 between its recent floor and peak */
+  bass: number;
+  mid: number;
+  treble: number;
+  /** Overall loudness, 0–1, with a kick on every onset */
+  level: number;
+  /** True on the frame an onset (beat, hit, note attack) was detected */
+  onset: boolean;
+}
+
+type Band = 'bass' | 'mid' | 'treble';
+
+export const BANDS: Record<Band, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 10000],
+};
+
+/** Frames of spectral flux the onset threshold adapts over (~0.7 s at 60 fps) */
+const FLUX_HISTORY = 43;
+/** Standard deviations above the recent mean flux an onset must reach */
+const ONSET_SENSITIVITY = 1.6;
+/** …and at least this multiple of the mean, so steady noise never triggers */
+const ONSET_RATIO = 1.5;
+/** Minimum gap between onsets, in seconds */
+const ONSET_REFRACTORY = 0.12;
+/** dB per frame the tracked peak falls and floor rises when not pushed */
+const RANGE_DRIFT = 0.02;
+/** Narrowest floor-to-peak span, so near-silence isn't stretched to full scale */
+const MIN_RANGE_DB = 12;
+
+// ─── FFT ────────────────────────────────────────────────
+/**
+ * Magnitude spectrum of `samples` (length a power of two) with a Hann
+ * window. Writes `samples.length / 2` bins into `out`.
+ */
+export function magnitudeSpectrum(samples: Float32Array, out: Float32Array, re?: Float32Array, im?: Float32Array) {
+  const n = samples.length;
+  re ??= new Float32Array(n);
+  im ??= new Float32Array(n);
+
+  // Windowed copy in bit-reversed order
+  const bits = Math.log2(n);
+  for (let i = 0; i < n; i++) {
+    let j = 0;
+    for (let b = 0; b < bits; b++) j |= ((i >> b) & 1) << (bits - 1 - b);
+    re[j] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    im[j] = 0;
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  for (let k = 0; k < n / 2; k++) out[k] = Math.hypot(re[k], im[k]) / n;
+}
+
+// ─── Extractor ──────────────────────────────────────────
+export class FeatureExtractor {
+  readonly features: AudioFeatures = { bass: 0, mid: 0, treble: 0, level: 0, onset: false };
+
+  private spectrum: Float32Array;
+  private previous: Float32Array;
+  private re: Float32Array;
+  private im: Float32Array;
+  private binHz: number;
+  private ranges: Record<Band | 'level', DynamicRange> = {
+    bass: new DynamicRange(),
+    mid: new DynamicRange(),
+    treble: new DynamicRange(),
+    level: new DynamicRange(),
+  };
+  private flux: number[] = [];
+  private lastOnset = -Infinity;
+
+  constructor(readonly frameSize: number, readonly sampleRate: number) {
+    this.spectrum = new Float32Array(frameSize / 2);
+    this.previous = new Float32Array(frameSize / 2);
+    this.re = new Float32Array(frameSize);
+    this.im = new Float32Array(frameSize);
+    this.binHz = sampleRate / frameSize;
+  }
+
+  /** Analyzes one frame of `frameSize` samples captured at `time` seconds */
+  process(samples: Float32Array, time: number): AudioFeatures {
+    const { spectrum, previous, features } = this;
+    magnitudeSpectrum(samples, spectrum, this.re, this.im);
+
+    // Band energies, each normalized within its own recent dynamic range
+    for (const band of Object.keys(BANDS) as Band[]) {
+      features[band] = smooth(features[band], this.ranges[band].normalize(this.bandEnergy(band)));
+    }
+
+    // Spectral flux — summed rises in magnitude since the last frame
+    let flux = 0;
+    let total = 0;
+    for (let k = 0; k < spectrum.length; k++) {
+      const rise = spectrum[k] - previous[k];
+      if (rise > 0) flux += rise;
+      total += spectrum[k];
+      previous[k] = spectrum[k];
+    }
+
+    const history = this.flux;
+    let mean = 0;
+    for (const f of history) mean += f;
+    mean /= history.length || 1;
+    let variance = 0;
+    for (const f of history) variance += (f - mean) ** 2;
+    const threshold = mean + ONSET_SENSITIVITY * Math.sqrt(variance / (history.length || 1));
+
+    features.onset =
+      history.length === FLUX_HISTORY &&
+      flux > threshold &&
+      flux > mean * ONSET_RATIO &&
+      time - this.lastOnset >= ONSET_REFRACTORY;
+    if (features.onset) this.lastOnset = time;
+
+    history.push(flux);
+    if (history.length > FLUX_HISTORY) history.shift();
+
+    const level = this.ranges.level.normalize(total);
+    features.level = features.onset ? 1 : smooth(features.level, level);
+    return features;
+  }
+
+  /** RMS magnitude over the band's bins */
+  private bandEnergy(band: Band): number {
+    const [lo, hi] = BANDS[band];
+    const from = Math.max(1, Math.floor(lo / this.binHz));
+    const to = Math.min(this.spectrum.length - 1, Math.ceil(hi / this.binHz));
+    let sum = 0;
+    for (let k = from; k <= to; k++) sum += this.spectrum[k] ** 2;
+    return Math.sqrt(sum / Math.max(1, to - from + 1));
+  }
+}
+
+/** Tracks a signal's recent floor and peak in dB and maps it between them */
+class DynamicRange {
+  private floor = Infinity;
+  private peak = -Infinity;
+
+  normalize(energy: number): number {
+    const db = 20 * Math.log10(energy + 1e-9);
+    this.floor = Math.min(db, this.floor + RANGE_DRIFT);
+    this.peak = Math.max(db, this.peak - RANGE_DRIFT);
+    const range = Math.max(this.peak - this.floor, MIN_RANGE_DB);
+    return Math.max(0, Math.min(1, (db - this.floor) / range));
+  }
+}
+
+/** Fast attack, slow release — reads as a pulse rather than a flicker */
+function smooth(current: number, target: number): number {
+  return current + (target - current) * (target > current ? 0.6 : 0.12);
+}
@@ -0,0 +1,101 @@
+// ─── Audio Input ──────────────────────────────────────────
+// Feeds an AnalyserNode from the microphone, a dropped audio file or the
+// ambient engine's own output, and runs the feature extractor on it once
+// per frame.
+
+import { FeatureExtractor, type AudioFeatures } from './audio-features.ts';
+import type { AmbientSound } from './audio.ts';
+
+export type AudioSourceKind = 'mic' | 'file' | 'output';
+
+const FRAME_SIZE = 2048;
+
+export class AudioInput {
+  private ctx: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private extractor: FeatureExtractor | null = null;
+  private samples = new Float32Array(FRAME_SIZE);
+  private _kind: AudioSourceKind | null = null;
+
+  constructor(private sound: AmbientSound) {}
+
+  /** What's being listened to, or null when reactivity is off */
+  get kind() {
+    return this._kind;
+  }
+
+  /** Asks for microphone access. Rejects if the user declines. */
+  async useMicrophone() {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    const ctx = this.ownContext();
+    this.stop();
+    this.stream = stream;
+    // Not routed to the speakers — that would feed back
+    this.listen(ctx, ctx.createMediaStreamSource(stream), 'mic');
+  }
+
+  /** Plays `file` on loop and listens to it. Rejects if it can't be decoded. */
+  async useFile(file: File) {
+    const ctx = this.ownContext();
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    this.stop();
+    const player = ctx.createBufferSource();
+    player.buffer = buffer;
+    player.loop = true;
+    player.connect(ctx.destination);
+    player.start();
+    this.listen(ctx, player, 'file');
+  }
+
+  /** Listens to the ambient engine. Returns false if it isn't running. */
+  useOutput(): boolean {
+    const ctx = this.sound.context;
+    if (!ctx) return false;
+    this.stop();
+    const analyser = this.listen(ctx, null, 'output');
+    this.sound.connectTap(analyser);
+    return true;
+  }
+
+  stop() {
+    if (this._kind === 'output' && this.analyser) this.sound.disconnectTap(this.analyser);
+    if (this.source instanceof AudioBufferSourceNode) this.source.stop();
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.stream?.getTracks().forEach((t) => t.stop());
+    this.source = null;
+    this.analyser = null;
+    this.stream = null;
+    this.extractor = null;
+    this._kind = null;
+  }
+
+  /** Features for the current frame, or null when nothing is being listened to */
+  update(): AudioFeatures | null {
+    if (!this.analyser || !this.extractor) return null;
+    this.analyser.getFloatTimeDomainData(this.samples);
+    return this.extractor.process(this.samples, this.analyser.context.currentTime);
+  }
+
+  /** Mic and file input get a context of their own, so they work with sound off */
+  private ownContext(): AudioContext {
+    this.ctx ??= new AudioContext();
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+    return this.ctx;
+  }
+
+  private listen(ctx: BaseAudioContext, source: AudioNode | null, kind: AudioSourceKind): AnalyserNode {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = FRAME_SIZE;
+    source?.connect(analyser);
+    this.source = source;
+    this.analyser = analyser;
+    this.extractor = new FeatureExtractor(FRAME_SIZE, ctx.sampleRate);
+    this._kind = kind;
+    return analyser;
+  }
+}
@@ -2,34 +2,152 @@
 // Uses Web Audio API to create layered drone + interaction sounds.
 // No audio files needed — everything is synthesized.
 
-const MODE_FREQS: number[][] = [
-  [65.4, 98.0, 164.8],   // nebula: C2, G2, E3 — open, spacious
-  [73.4, 110.0, 185.0],  // solar: D2, A2, F#3 — warm, bright
-  [82.4, 123.5, 207.7],  // aurora: E2, B2, G#3 — shimmering
-  [92.5, 138.6, 233.1],  // vortex: F#2, C#3, A#3 — tense, spiraling
-  [55.0, 82.4, 123.5],   // void: A1, E2, B2 — deep, ethereal
-];
+import { MODES, DEFAULT_MODE, type Mode } from './modes.ts';
+import type { Random } from './random.ts';
+import { chooseNote } from './melody.ts';
+
+/** Where a sound happened, as heard from the camera */
+export interface SoundPlacement {
+  /** -1 (hard left) to 1 (hard right) */
+  pan: number;
+  /** World units from the camera */
+  distance: number;
+}
+
+/** A scripted one-shot for offline rendering, `time` seconds in */
+export type SoundEvent =
+  | { type: 'burst'; time: number; at?: SoundPlacement; weight?: number }
+  | { type: 'color'; time: number; at?: SoundPlacement };
+
+export interface OfflineRenderOptions {
+  mode: Mode;
+  seconds: number;
+  /** Defaults to 44.1 kHz */
+  sampleRate?: number;
+  events?: SoundEvent[];
+  /** Include the generative melody */
+  melody?: boolean;
+  random?: Random;
+}
+
+/** Fade in and out of offline renders, so exports don't start or end on a click */
+const EXPORT_FADE = 0.5;
+
+/** Camera distance at which placed sounds play unaltered (the default zoom) */
+const REFERENCE_DISTANCE = 60;
+/** Kinetic energy heard as silence, and as the loudest motion — log-scaled between */
+const MOTION_FLOOR = 1e-3;
+const MOTION_CEILING = 1;
+
+// Melody scheduling — notes are queued this far ahead of the audio clock
+// by a timer that wakes more often than that, so main-thread stalls never
+// reach the audio
+const MELODY_STEP = 0.3;
+const MELODY_LOOKAHEAD = 0.15;
+const MELODY_TICK_MS = 40;
+/** Melody sits this many octaves above the drone root */
+const MELODY_OCTAVES = 2;
+/** Seconds for the key to move on a mode change — matches the drone glide */
+const KEY_GLIDE = 3;
+/** Seconds for stirred-up activity to settle back by 1/e */
+const ACTIVITY_DECAY = 4;
+
+interface Key {
+  root: number;
+  scale: readonly number[];
+}
 
 export class AmbientSound {
-  private ctx: AudioContext | null = null;
+  private ctx: BaseAudioContext | null = null;
   private master!: GainNode;
   private sfxGain!: GainNode;
   private filter!: BiquadFilterNode;
+  private motionGain!: GainNode;
+  private motionFilter!: BiquadFilterNode;
   private drones: OscillatorNode[] = [];
-  private currentMode = 4;
+  private chord: readonly number[] = MODES[DEFAULT_MODE].chord;
+  private scale: readonly number[] = MODES[DEFAULT_MODE].scale;
   private _enabled = false;
 
+  private melodyBus!: GainNode;
+  private melodySeed: number;
+  private _melody = false;
+  private melodyStep = 0;
+  private nextNoteTime = 0;
+  private previousDegree = 0;
+  private holdSteps = 0;
+  private activity = 0;
+  private key: { from: Key; to: Key; start: number; end: number };
+
+  constructor(private random: Random = Math.random) {
+    this.melodySeed = (random() * 4294967296) >>> 0;
+    const key = { root: this.chord[0], scale: this.scale };
+    this.key = { from: key, to: key, start: 0, end: 0 };
+  }
+
+  /**
+   * Renders a mode's ambience (plus scripted events) faster than real time
+   * on an OfflineAudioContext. Independent of any live engine.
+   */
+  static renderOffline(options: OfflineRenderOptions): Promise<AudioBuffer> {
+    const { mode, seconds, sampleRate = 44100, events = [], melody = false } = options;
+    const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(seconds * sampleRate)), sampleRate);
+
+    const fade = ctx.createGain();
+    const edge = Math.min(EXPORT_FADE, seconds / 2);
+    fade.gain.setValueAtTime(0, 0);
+    fade.gain.linearRampToValueAtTime(1, edge);
+    fade.gain.setValueAtTime(1, seconds - edge);
+    fade.gain.linearRampToValueAtTime(0, seconds);
+    fade.connect(ctx.destination);
+
+    const sound = new AmbientSound(options.random);
+    sound.setMode(mode);
+    sound.build(ctx, fade);
+    sound._melody = melody;
+    sound.nextNoteTime = 0.1;
+
+    // Melody is queued up to each event, so bursts liven what follows them
+    const queued = events.filter((e) => e.time >= 0 && e.time < seconds).sort((a, b) => a.time - b.time);
+    for (const e of queued) {
+      if (melody) sound.queueMelody(e.time);
+      if (e.type === 'burst') sound.burst(e.time, e.at, e.weight ?? 1);
+      else sound.chime(e.time, e.at);
+    }
+    if (melody) sound.queueMelody(seconds);
+
+    return ctx.startRendering();
+  }
+
   get enabled() {
     return this._enabled;
   }
 
+  /** The running context, or null until sound is first switched on */
+  get context(): BaseAudioContext | null {
+    return this.ctx;
+  }
+
+  /** Also routes everything the engine plays into `node` (e.g. an analyser) */
+  connectTap(node: AudioNode) {
+    if (!this.ctx) return;
+    this.master.connect(node);
+    this.sfxGain.connect(node);
+  }
+
+  disconnectTap(node: AudioNode) {
+    if (!this.ctx) return;
+    this.master.disconnect(node);
+    this.sfxGain.disconnect(node);
+  }
+
   toggle(): boolean {
     if (!this.ctx) {
-      this.init(this.currentMode);
+      this.init();
       return this._enabled;
     }
 
-    if (this.ctx.state === 'suspended') {
+    if (this.ctx instanceof AudioContext && this.ctx.state === 'suspended') {
       this.ctx.resume();
     }
 
@@ -40,9 +158,14 @@ export class AmbientSound {
     return this._enabled;
   }
 
-  private init(modeIndex: number) {
-    this.ctx = new AudioContext();
-    const ctx = this.ctx;
+  private init() {
+    this.build(new AudioContext());
+    setInterval(() => this.scheduleMelody(), MELODY_TICK_MS);
+  }
+
+  /** Builds the whole graph on `ctx` — a live context, or an offline one for export */
+  private build(ctx: BaseAudioContext, destination: AudioNode = ctx.destination) {
+    this.ctx = ctx;
 
     // Master gain (for continuous drone — kept low)
     this.master = ctx.createGain();
@@ -51,7 +174,7 @@ export class AmbientSound {
     // Separate SFX gain (for one-shot sounds — much louder)
     this.sfxGain = ctx.createGain();
     this.sfxGain.gain.value = 0.5;
-    this.sfxGain.connect(ctx.destination);
+    this.sfxGain.connect(destination);
 
     // Warm lowpass filter
     this.filter = ctx.createBiquadFilter();
@@ -59,10 +182,10 @@ export class AmbientSound {
     this.filter.frequency.value = 500;
     this.filter.Q.value = 0.6;
     this.filter.connect(this.master);
-    this.master.connect(ctx.destination);
+    this.master.connect(destination);
 
     // 3 drone oscillators with slow vibrato
-    const freqs = MODE_FREQS[modeIndex];
+    const freqs = this.chord;
     for (let i = 0; i < 3; i++) {
       const osc = ctx.createOscillator();
       osc.type = 'triangle';
@@ -101,7 +224,7 @@ export class AmbientSound {
     const noiseBuf = ctx.createBuffer(1, bufLen, ctx.sampleRate);
     const data = noiseBuf.getChannelData(0);
     for (let i = 0; i < bufLen; i++) {
-      data[i] = Math.random() * 2 - 1;
+      data[i] = this.random() * 2 - 1;
     }
     const noise = ctx.createBufferSource();
     noise.buffer = noiseBuf;
@@ -120,41 +243,196 @@ export class AmbientSound {
     noiseGain.connect(this.master);
     noise.start();
 
+    // Motion layer — an airy rush on the same noise, swelling with particle speed
+    this.motionFilter = ctx.createBiquadFilter();
+    this.motionFilter.type = 'bandpass';
+    this.motionFilter.frequency.value = 400;
+    this.motionFilter.Q.value = 0.8;
+    this.motionGain = ctx.createGain();
+    this.motionGain.gain.value = 0;
+
+    noise.connect(this.motionFilter);
+    this.motionFilter.connect(this.motionGain);
+    this.motionGain.connect(this.sfxGain);
+
+    // Melody bus with a dark, dotted echo
+    this.melodyBus = ctx.createGain();
+    const echo = ctx.createDelay(2);
+    echo.delayTime.value = MELODY_STEP * 3;
+    const echoTone = ctx.createBiquadFilter();
+    echoTone.type = 'lowpass';
+    echoTone.frequency.value = 1800;
+    const feedback = ctx.createGain();
+    feedback.gain.value = 0.35;
+    this.melodyBus.connect(this.sfxGain);
+    this.melodyBus.connect(echo);
+    echo.connect(echoTone);
+    echoTone.connect(feedback);
+    feedback.connect(echo);
+    feedback.connect(this.sfxGain);
+
     this._enabled = true;
   }
 
-  setMode(index: number) {
-    this.currentMode = index;
-    if (!this.ctx || !this._enabled) return;
+  setMode(mode: Mode) {
+    this.scale = mode.scale;
+    if (!this.setChord(mode.chord)) return;
+    this.triggerSweep();
+  }
 
-    const freqs = MODE_FREQS[index];
-    const now = this.ctx.currentTime;
+  /** Glides the drones (and the melody's key) to a new chord. Returns false while silent. */
+  setChord(chord: readonly number[]): boolean {
+    this.chord = chord;
+    this.glideKey({ root: chord[0], scale: this.scale });
+    if (!this.ctx || !this._enabled) return false;
 
+    const now = this.ctx.currentTime;
     this.drones.forEach((osc, i) => {
-      osc.frequency.linearRampToValueAtTime(freqs[i], now + 3);
+      osc.frequency.linearRampToValueAtTime(chord[i], now + 3);
     });
+    return true;
+  }
 
-    this.triggerSweep();
+  // ─── Melody ───────────────────────────────────────────────
+  get melody() {
+    return this._melody;
   }
 
-  /** Percussive impact — low thump + noise whoosh to match particle explosion */
-  triggerBurst() {
-    if (!this.ctx || !this._enabled) return;
+  /** Switches the generative melody voice on or off */
+  setMelody(on: boolean) {
+    this._melody = on;
+    if (on && this.ctx) this.nextNoteTime = this.ctx.currentTime + 0.1;
+  }
+
+  /** Interaction (cursor speed, bursts) makes the melody busier for a while */
+  stir(amount: number) {
+    this.activity = Math.min(1, this.activity + amount);
+  }
+
+  private glideKey(to: Key) {
+    const now = this.ctx?.currentTime ?? 0;
+    const from = this.ctx ? this.keyAt(now) : to;
+    this.key = { from, to, start: now, end: now + KEY_GLIDE };
+  }
+
+  /** Root glides smoothly; the scale changes over halfway through */
+  private keyAt(time: number): Key {
+    const { from, to, start, end } = this.key;
+    const t = end > start ? Math.max(0, Math.min(1, (time - start) / (end - start))) : 1;
+    return {
+      root: from.root * (to.root / from.root) ** t,
+      scale: t < 0.5 ? from.scale : to.scale,
+    };
+  }
+
+  private scheduleMelody() {
     const ctx = this.ctx;
-    const now = ctx.currentTime;
+    if (!ctx || !this._enabled || !this._melody) return;
+    // Resume cleanly after the context or the tab was suspended
+    if (this.nextNoteTime < ctx.currentTime) this.nextNoteTime = ctx.currentTime + 0.05;
+    this.queueMelody(ctx.currentTime + MELODY_LOOKAHEAD);
+  }
+
+  /** Schedules every melody step that starts before `until` */
+  private queueMelody(until: number) {
+    while (this.nextNoteTime < until) {
+      const time = this.nextNoteTime;
+      this.activity *= Math.exp(-MELODY_STEP / ACTIVITY_DECAY);
+
+      if (this.holdSteps > 0) {
+        this.holdSteps--;
+      } else {
+        const key = this.keyAt(time);
+        const note = chooseNote({
+          seed: this.melodySeed,
+          step: this.melodyStep,
+          previous: this.previousDegree,
+          scale: key.scale,
+          density: 0.15 + 0.85 * this.activity,
+        });
+        if (note) {
+          const freq = key.root * 2 ** (MELODY_OCTAVES + note.semitones / 12);
+          const pan = Math.max(-0.6, Math.min(0.6, note.semitones / 24 - 0.3));
+          this.playNote(time, freq, note.velocity, note.steps * MELODY_STEP, pan);
+          this.previousDegree = note.degree;
+          this.holdSteps = note.steps - 1;
+        }
+      }
+
+      this.melodyStep++;
+      this.nextNoteTime += MELODY_STEP;
+    }
+  }
+
+  /** Bell-ish pluck — sine body with a quiet octave shimmer */
+  private playNote(time: number, freq: number, velocity: number, duration: number, pan: number) {
+    const ctx = this.ctx!;
+    const release = time + duration + 0.6;
+
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0.0001, time);
+    env.gain.exponentialRampToValueAtTime(0.05 * velocity, time + 0.02);
+    env.gain.exponentialRampToValueAtTime(0.02 * velocity, time + duration);
+    env.gain.exponentialRampToValueAtTime(0.0001, release);
+
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+    env.connect(panner);
+    panner.connect(this.melodyBus);
+
+    [1, 2].forEach((ratio, i) => {
+      const osc = ctx.createOscillator();
+      osc.type = i === 0 ? 'sine' : 'triangle';
+      osc.frequency.value = freq * ratio;
+      const g = ctx.createGain();
+      g.gain.value = i === 0 ? 1 : 0.15;
+      osc.connect(g);
+      g.connect(env);
+      osc.start(time);
+      osc.stop(release + 0.05);
+    });
+  }
+
+  /**
+   * Follows the particles' mean kinetic energy (see
+   * ParticleSimulation.kineticEnergy). Call once per frame.
+   */
+  setMotion(energy: number) {
+    if (!this.ctx) return;
+    const span = Math.log10(MOTION_CEILING / MOTION_FLOOR);
+    const intensity = Math.max(0, Math.min(1, Math.log10(Math.max(energy, 1e-12) / MOTION_FLOOR) / span));
+    const now = this.ctx.currentTime;
+    this.motionGain.gain.setTargetAtTime(intensity * intensity * 0.06, now, 0.2);
+    this.motionFilter.frequency.setTargetAtTime(300 + intensity * 2200, now, 0.2);
+  }
+
+  /**
+   * Percussive impact — low thump + noise whoosh to match particle explosion.
+   * `weight` (0–1, how much of the field was hit) sets loudness and body.
+   */
+  triggerBurst(at?: SoundPlacement, weight = 1) {
+    if (!this.ctx || !this._enabled) return;
+    this.burst(this.ctx.currentTime, at, weight);
+  }
+
+  private burst(now: number, at: SoundPlacement | undefined, weight: number) {
+    const ctx = this.ctx!;
+    const out = this.place(at);
+    const level = 0.25 + 0.75 * Math.sqrt(Math.max(0, Math.min(1, weight)));
+    this.stir(0.4 * level);
 
     // Low-frequency thump (the "boom")
     const thump = ctx.createOscillator();
     thump.type = 'sine';
-    thump.frequency.setValueAtTime(70 + Math.random() * 30, now);
+    thump.frequency.setValueAtTime(70 + this.random() * 30, now);
     thump.frequency.exponentialRampToValueAtTime(25, now + 0.18);
 
     const thumpGain = ctx.createGain();
-    thumpGain.gain.setValueAtTime(0.12, now);
+    thumpGain.gain.setValueAtTime(0.12 * level, now);
     thumpGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.22);
 
     thump.connect(thumpGain);
-    thumpGain.connect(this.sfxGain);
+    thumpGain.connect(out);
     thump.start(now);
     thump.stop(now + 0.25);
 
@@ -163,7 +441,7 @@ export class AmbientSound {
     const buf = ctx.createBuffer(1, bufLen, ctx.sampleRate);
     const data = buf.getChannelData(0);
     for (let i = 0; i < bufLen; i++) {
-      data[i] = Math.random() * 2 - 1;
+      data[i] = this.random() * 2 - 1;
     }
 
     const noise = ctx.createBufferSource();
@@ -175,23 +453,27 @@ export class AmbientSound {
     noiseFilt.frequency.exponentialRampToValueAtTime(150, now + 0.25);
 
     const noiseGain = ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.12, now);
+    noiseGain.gain.setValueAtTime(0.12 * level, now);
     noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + 0.3);
 
     noise.connect(noiseFilt);
     noiseFilt.connect(noiseGain);
-    noiseGain.connect(this.sfxGain);
+    noiseGain.connect(out);
     noise.start(now);
     noise.stop(now + 0.35);
   }
 
   /** Soft rising tone on color change */
-  triggerColorChange() {
+  triggerColorChange(at?: SoundPlacement) {
     if (!this.ctx || !this._enabled) return;
-    const ctx = this.ctx;
-    const now = ctx.currentTime;
+    this.chime(this.ctx.currentTime, at);
+  }
 
-    const base = 600 + Math.random() * 200;
+  private chime(now: number, at: SoundPlacement | undefined) {
+    const ctx = this.ctx!;
+    const out = this.place(at);
+
+    const base = 600 + this.random() * 200;
 
     // Two quick rising notes
     [0, 0.06].forEach((delay, i) => {
@@ -206,23 +488,29 @@ export class AmbientSound {
       g.gain.exponentialRampToValueAtTime(0.0001, now + delay + 0.18);
 
       osc.connect(g);
-      g.connect(this.sfxGain);
+      g.connect(out);
       osc.start(now + delay);
       osc.stop(now + delay + 0.2);
     });
   }
 
-  /** Descending whoosh on mode change */
+  /** Descending whoosh on mode change, swept across the stereo field */
   private triggerSweep() {
     if (!this.ctx) return;
     const ctx = this.ctx;
     const now = ctx.currentTime;
 
+    const pan = ctx.createStereoPanner();
+    const side = this.random() < 0.5 ? -1 : 1;
+    pan.pan.setValueAtTime(0.6 * side, now);
+    pan.pan.linearRampToValueAtTime(-0.6 * side, now + 0.6);
+    pan.connect(this.sfxGain);
+
     const bufLen = ctx.sampleRate;
     const buf = ctx.createBuffer(1, bufLen, ctx.sampleRate);
     const data = buf.getChannelData(0);
     for (let i = 0; i < bufLen; i++) {
-      data[i] = Math.random() * 2 - 1;
+      data[i] = this.random() * 2 - 1;
     }
 
     const src = ctx.createBufferSource();
@@ -240,8 +528,34 @@ export class AmbientSound {
 
     src.connect(bp);
     bp.connect(g);
-    g.connect(this.sfxGain);
+    g.connect(pan);
     src.start(now);
     src.stop(now + 0.7);
   }
+
+  /**
+   * A one-shot chain that pans by screen position and darkens and quietens
+   * with distance. Returns what to connect the sound to; unplaced sounds go
+   * straight to the SFX bus. The chain is collected once the sound ends.
+   */
+  private place(at?: SoundPlacement): AudioNode {
+    if (!at) return this.sfxGain;
+    const ctx = this.ctx!;
+    const near = REFERENCE_DISTANCE / Math.max(at.distance, 1);
+
+    const pan = ctx.createStereoPanner();
+    pan.pan.value = Math.max(-1, Math.min(1, at.pan));
+
+    const air = ctx.createBiquadFilter();
+    air.type = 'lowpass';
+    air.frequency.value = Math.max(600, Math.min(16000, 6000 * near * near));
+
+    const gain = ctx.createGain();
+    gain.gain.value = Math.max(0.3, Math.min(1.6, near));
+
+    air.connect(pan);
+    pan.connect(gain);
+    gain.connect(this.sfxGain);
+    return air;
+  }
 }
@@ -0,0 +1,154 @@
+// ─── Autopilot ────────────────────────────────────────────
+// Keeps an unattended display alive: cycles modes and palettes on a
+// schedule and steers a ghost pointer that wanders, pulls and now and then
+// bursts. Real input suspends it at once; it takes over again once the
+// display has been left alone for a while. No DOM dependency.
+
+import type { Pointer } from './simulation.ts';
+import type { Random } from './random.ts';
+
+export interface KioskOptions {
+  /** Seconds per mode */
+  modeSeconds: number;
+  /** Seconds per palette */
+  paletteSeconds: number;
+  /** Seconds without input before the autopilot takes over again */
+  idleSeconds: number;
+}
+
+export const DEFAULT_KIOSK: KioskOptions = { modeSeconds: 45, paletteSeconds: 20, idleSeconds: 20 };
+
+/**
+ * Reads `?kiosk` from a query string, with optional `cycle`, `palette` and
+ * `idle` seconds (e.g. `?kiosk&cycle=60&idle=30`). Null without the flag.
+ */
+export function parseKioskOptions(search: string): KioskOptions | null {
+  const params = new URLSearchParams(search);
+  const flag = params.get('kiosk');
+  if (flag === null || flag === '0' || flag === 'off') return null;
+  const seconds = (key: string, fallback: number) => {
+    const n = Number(params.get(key) ?? NaN);
+    return Number.isFinite(n) && n >= 1 ? n : fallback;
+  };
+  return {
+    modeSeconds: seconds('cycle', DEFAULT_KIOSK.modeSeconds),
+    paletteSeconds: seconds('palette', DEFAULT_KIOSK.paletteSeconds),
+    idleSeconds: seconds('idle', DEFAULT_KIOSK.idleSeconds),
+  };
+}
+
+export interface AutopilotCallbacks {
+  onMode(): void;
+  onPalette(): void;
+  onBurst(x: number, y: number, z: number, push: boolean): void;
+}
+
+/** Half extents of the area the ghost wanders, in world units */
+const WANDER_X = 24;
+const WANDER_Y = 15;
+/** Seconds between bursts, and how long pulls last and pause */
+const BURST_EVERY: [number, number] = [6, 16];
+const HOLD_FOR: [number, number] = [1.5, 5];
+const REST_FOR: [number, number] = [2, 7];
+/** Share of pulls that push instead */
+const REPEL_SHARE = 0.25;
+
+export class Autopilot {
+  /** The ghost — add it to the simulation's pointers */
+  readonly pointer: Pointer = { x: 0, y: 0, z: 0, active: false, down: false, repelling: false };
+
+  private _engaged = false;
+  private idle = 0;
+  private time = 0;
+  private modeClock = 0;
+  private paletteClock = 0;
+  private burstIn = 0;
+  private holdIn = 0;
+  /** Wander frequencies and phases — fixed per session so the path never repeats exactly */
+  private wander: number[];
+
+  constructor(private options: KioskOptions, private random: Random, private callbacks: AutopilotCallbacks) {
+    this.wander = Array.from({ length: 8 }, () => random());
+    this.burstIn = this.between(BURST_EVERY);
+    this.holdIn = this.between(REST_FOR);
+  }
+
+  /** True while the autopilot has the field */
+  get engaged(): boolean {
+    return this._engaged;
+  }
+
+  /** Takes over straight away */
+  start() {
+    this.idle = this.options.idleSeconds;
+    this.engage();
+  }
+
+  stop() {
+    this.disengage();
+    this.idle = 0;
+  }
+
+  /** Real input — hand the field to the person */
+  noteInput() {
+    this.idle = 0;
+    if (this._engaged) this.disengage();
+  }
+
+  update(dt: number) {
+    this.idle += dt;
+    if (!this._engaged) {
+      if (this.idle < this.options.idleSeconds) return;
+      this.engage();
+    }
+
+    this.time += dt;
+    this.modeClock += dt;
+    this.paletteClock += dt;
+    if (this.modeClock >= this.options.modeSeconds) {
+      this.modeClock = 0;
+      this.callbacks.onMode();
+    }
+    if (this.paletteClock >= this.options.paletteSeconds) {
+      this.paletteClock = 0;
+      this.callbacks.onPalette();
+    }
+
+    // Two incommensurate sines per axis make a path that loops without repeating
+    const [a, b, c, d, pa, pb, pc, pd] = this.wander;
+    const t = this.time;
+    const p = this.pointer;
+    p.x = WANDER_X * (0.7 * Math.sin(t * (0.11 + a * 0.05) + pa * 6.28) + 0.3 * Math.sin(t * (0.37 + b * 0.1) + pb * 6.28));
+    p.y = WANDER_Y * (0.7 * Math.sin(t * (0.09 + c * 0.05) + pc * 6.28) + 0.3 * Math.sin(t * (0.29 + d * 0.1) + pd * 6.28));
+
+    // Alternate between resting (a faint hover pull) and holding
+    this.holdIn -= dt;
+    if (this.holdIn <= 0) {
+      p.down = !p.down;
+      p.repelling = p.down && this.random() < REPEL_SHARE;
+      this.holdIn = this.between(p.down ? HOLD_FOR : REST_FOR);
+    }
+
+    this.burstIn -= dt;
+    if (this.burstIn <= 0) {
+      this.burstIn = this.between(BURST_EVERY);
+      this.callbacks.onBurst(p.x, p.y, p.z, this.random() < 0.5);
+    }
+  }
+
+  private engage() {
+    this._engaged = true;
+    this.pointer.active = true;
+  }
+
+  private disengage() {
+    this._engaged = false;
+    this.pointer.active = false;
+    this.pointer.down = false;
+    this.pointer.repelling = false;
+  }
+
+  private between([lo, hi]: [number, number]): number {
+    return lo + this.random() * (hi - lo);
+  }
+}
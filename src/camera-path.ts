@@ -0,0 +1,48 @@
+// ─── Camera Path ──────────────────────────────────────────
+// A recorded camera move: poses sampled while the user orbits, replayed
+// along a spline so the playback is smoother than the hand that made it.
+
+import { sampleSpline } from './spline.ts';
+import { wrapAngle, type CameraPose } from './camera-rig.ts';
+
+export interface CameraKeyframe {
+  /** Seconds from the start of the path */
+  time: number;
+  pose: CameraPose;
+}
+
+/** Seconds between recorded keyframes — dense enough to keep the gesture, sparse enough to smooth it */
+const RECORD_INTERVAL = 0.5;
+
+const POSE_KEYS: (keyof CameraPose)[] = ['yaw', 'pitch', 'distance', 'x', 'y', 'z'];
+
+export class CameraPath {
+  keyframes: CameraKeyframe[] = [];
+
+  get duration(): number {
+    return this.keyframes.length ? this.keyframes[this.keyframes.length - 1].time : 0;
+  }
+
+  clear() {
+    this.keyframes = [];
+  }
+
+  /**
+   * Offers a pose at `time` during recording. Kept only once `spacing`
+   * seconds have passed since the last keyframe; pass 0 to keep it anyway.
+   */
+  record(time: number, pose: CameraPose, spacing = RECORD_INTERVAL) {
+    const last = this.keyframes[this.keyframes.length - 1];
+    if (last && time - last.time < spacing) return;
+    if (last && time <= last.time) return;
+    // Yaw takes the short way round from the previous keyframe
+    const yaw = last ? last.pose.yaw + wrapAngle(pose.yaw - last.pose.yaw) : pose.yaw;
+    this.keyframes.push({ time, pose: { ...pose, yaw } });
+  }
+
+  sample(time: number): CameraPose {
+    const pose = {} as CameraPose;
+    for (const key of POSE_KEYS) pose[key] = sampleSpline(this.keyframes, time, (k) => k.pose[key]);
+    return pose;
+  }
+}
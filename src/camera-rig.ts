@@ -0,0 +1,124 @@
+// ─── Camera Rig ───────────────────────────────────────────
+// An orbit camera: yaw and pitch around a target point at some distance.
+// Poses are plain numbers so they serialize to links and interpolate along
+// paths; the rig turns them into a camera transform and an interaction
+// plane that faces the viewer through the target.
+
+import * as THREE from 'three';
+
+export interface CameraPose {
+  /** Radians around the Y axis; 0 looks down -Z */
+  yaw: number;
+  /** Radians above (+) or below (-) the target */
+  pitch: number;
+  distance: number;
+  /** The point orbited and looked at */
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Camera distance limits */
+export const ZOOM_RANGE: [number, number] = [20, 120];
+/** Short of straight up or down, where the view would flip */
+export const PITCH_LIMIT = 1.45;
+/** Panning stays within this distance of the origin */
+const PAN_LIMIT = 60;
+
+export function defaultPose(distance: number): CameraPose {
+  return { yaw: 0, pitch: 0, distance, x: 0, y: 0, z: 0 };
+}
+
+export function clampPose(pose: CameraPose): CameraPose {
+  const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+  return {
+    yaw: pose.yaw,
+    pitch: clamp(pose.pitch, -PITCH_LIMIT, PITCH_LIMIT),
+    distance: clamp(pose.distance, ZOOM_RANGE[0], ZOOM_RANGE[1]),
+    x: clamp(pose.x, -PAN_LIMIT, PAN_LIMIT),
+    y: clamp(pose.y, -PAN_LIMIT, PAN_LIMIT),
+    z: clamp(pose.z, -PAN_LIMIT, PAN_LIMIT),
+  };
+}
+
+/** An angle folded into [-π, π) */
+export function wrapAngle(a: number): number {
+  return a - Math.PI * 2 * Math.floor((a + Math.PI) / (Math.PI * 2));
+}
+
+export function isDefaultPose(pose: CameraPose): boolean {
+  return pose.yaw === 0 && pose.pitch === 0 && pose.x === 0 && pose.y === 0 && pose.z === 0;
+}
+
+export class CameraRig {
+  pose: CameraPose;
+
+  private forward = new THREE.Vector3();
+  private right = new THREE.Vector3();
+  private up = new THREE.Vector3();
+  private target = new THREE.Vector3();
+  private normal = new THREE.Vector3();
+
+  constructor(pose: CameraPose) {
+    this.pose = clampPose(pose);
+  }
+
+  set(pose: CameraPose) {
+    this.pose = clampPose(pose);
+  }
+
+  /** Turns around the target by the given angles (radians) */
+  orbit(dYaw: number, dPitch: number) {
+    this.set({ ...this.pose, yaw: this.pose.yaw + dYaw, pitch: this.pose.pitch + dPitch });
+  }
+
+  /** Slides the target across the view, in world units */
+  pan(dx: number, dy: number) {
+    this.updateAxes();
+    const { right, up } = this;
+    this.set({
+      ...this.pose,
+      x: this.pose.x + right.x * dx + up.x * dy,
+      y: this.pose.y + right.y * dx + up.y * dy,
+      z: this.pose.z + right.z * dx + up.z * dy,
+    });
+  }
+
+  zoomTo(distance: number) {
+    this.set({ ...this.pose, distance });
+  }
+
+  /**
+   * Places the camera. `driftX`/`driftY` nudge it sideways and up without
+   * moving the target — the idle wobble — so the pose itself stays put.
+   */
+  apply(camera: THREE.Camera, driftX = 0, driftY = 0) {
+    this.updateAxes();
+    const { pose, forward, right, up, target } = this;
+    target.set(pose.x, pose.y, pose.z);
+    camera.position
+      .copy(target)
+      .addScaledVector(forward, -pose.distance)
+      .addScaledVector(right, driftX)
+      .addScaledVector(up, driftY);
+    camera.lookAt(target);
+  }
+
+  /** The plane through the target facing the camera, ignoring drift */
+  updatePlane(plane: THREE.Plane) {
+    this.updateAxes();
+    this.target.set(this.pose.x, this.pose.y, this.pose.z);
+    plane.setFromNormalAndCoplanarPoint(this.normal.copy(this.forward).negate(), this.target);
+  }
+
+  private updateAxes() {
+    const { yaw, pitch } = this.pose;
+    const cp = Math.cos(pitch);
+    const sp = Math.sin(pitch);
+    const cy = Math.cos(yaw);
+    const sy = Math.sin(yaw);
+    this.forward.set(-cp * sy, -sp, -cp * cy);
+    this.right.set(cy, 0, -sy);
+    this.up.set(-sp * sy, cp, -sp * cy);
+  }
+}
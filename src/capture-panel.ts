@@ -0,0 +1,90 @@
+// ─── Capture Panel ────────────────────────────────────────
+// Starts and stops WebM recording, takes high-resolution snapshots and
+// pins the render quality (worth doing before recording).
+
+import { QUALITY_LEVELS } from './quality-governor.ts';
+
+export interface CapturePanelCallbacks {
+  onRecord(): void;
+  onSnapshot(width: number, height: number): void;
+  /** A fixed quality level, or null for automatic */
+  onQuality(level: number | null): void;
+}
+
+const PRESETS: Record<string, [number, number]> = {
+  hd: [1920, 1080],
+  '4k': [3840, 2160],
+  '8k': [7680, 4320],
+};
+
+export class CapturePanel {
+  private recordBtn: HTMLButtonElement;
+  private widthInput: HTMLInputElement;
+  private heightInput: HTMLInputElement;
+  private statusEl: HTMLElement;
+  private qualityButtons: HTMLButtonElement[];
+  private qualityInfo: HTMLElement;
+
+  constructor(private root: HTMLElement, callbacks: CapturePanelCallbacks) {
+    this.recordBtn = root.querySelector('.capture-record')!;
+    this.widthInput = root.querySelector('.capture-width')!;
+    this.heightInput = root.querySelector('.capture-height')!;
+    this.statusEl = root.querySelector('.editor-status')!;
+    this.qualityInfo = root.querySelector('.capture-quality-info')!;
+
+    this.recordBtn.addEventListener('click', () => callbacks.onRecord());
+    root.querySelector('.capture-snapshot')!.addEventListener('click', () => {
+      callbacks.onSnapshot(this.widthInput.valueAsNumber || 1, this.heightInput.valueAsNumber || 1);
+    });
+
+    root.querySelector('.capture-presets')!.append(
+      ...Object.entries(PRESETS).map(([name, [w, h]]) => {
+        const btn = document.createElement('button');
+        btn.textContent = name;
+        btn.addEventListener('click', () => {
+          this.widthInput.value = String(w);
+          this.heightInput.value = String(h);
+        });
+        return btn;
+      })
+    );
+
+    const levels: [string, number | null][] = [['auto', null], ...QUALITY_LEVELS.map((q, i): [string, number] => [q.name, i])];
+    this.qualityButtons = levels.map(([name, level]) => {
+      const btn = document.createElement('button');
+      btn.textContent = name;
+      btn.dataset.level = String(level);
+      btn.addEventListener('click', () => callbacks.onQuality(level));
+      return btn;
+    });
+    root.querySelector('.capture-quality')!.append(...this.qualityButtons);
+  }
+
+  /** Shows which level is in effect and whether it was picked by hand */
+  setQuality(override: number | null, level: number, particles: number) {
+    this.qualityButtons.forEach((btn) => {
+      btn.classList.toggle('active', btn.dataset.level === String(override));
+    });
+    const count = particles >= 1000 ? `${Math.round(particles / 1000)}k` : String(particles);
+    this.qualityInfo.textContent = `${override === null ? 'auto · ' : ''}${QUALITY_LEVELS[level].name} · ${count} particles`;
+  }
+
+  get visible(): boolean {
+    return !this.root.hidden;
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+
+  /** Flips the record button between record and stop */
+  setRecording(on: boolean) {
+    this.recordBtn.textContent = on ? 'stop' : 'record';
+    this.recordBtn.classList.toggle('recording', on);
+  }
+
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+}
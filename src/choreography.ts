@@ -0,0 +1,283 @@
+// ─── Choreography ─────────────────────────────────────────
+// A scripted show as a versioned JSON document:
+//
+//   { "format": "void-choreography", "version": 1, "duration": 90, "loop": false,
+//     "cues": [ { "time": 0, "type": "mode", "mode": "nebula" },
+//               { "time": 12, "type": "color", "hue": 0.55 },
+//               { "time": 20, "type": "burst", "x": 0, "y": 0, "push": true } ],
+//     "camera": [ { "time": 0, "yaw": 0, "pitch": 0, "distance": 60 } ],
+//     "automation": { "swirl": [ { "time": 30, "value": 0 }, { "time": 40, "value": 0.02 } ] } }
+//
+// Cues fire once as the playhead passes them; camera and automation keys
+// are splined between. Validation works like mode packs: values that can
+// be repaired are clamped with a warning, anything else is an error.
+
+import { BOUNDS } from './simulation.ts';
+import { SCALAR_LIMITS } from './mode-pack.ts';
+import { clampPose, type CameraPose } from './camera-rig.ts';
+import type { CameraKeyframe } from './camera-path.ts';
+
+export const CHOREOGRAPHY_FORMAT = 'void-choreography';
+export const CHOREOGRAPHY_VERSION = 1;
+
+export type Cue =
+  | { time: number; type: 'mode'; mode: string }
+  /** A hue (0-1), or null for the mode's own colors */
+  | { time: number; type: 'color'; hue: number | null }
+  | { time: number; type: 'burst'; x: number; y: number; push: boolean };
+
+export interface AutomationKey {
+  time: number;
+  value: number;
+}
+
+/** Mode parameters a show can automate */
+export const AUTOMATED_PARAMS = [
+  'damping', 'mouseForce', 'drift', 'centerPull', 'equilibrium', 'swirl',
+  'separation', 'alignment', 'cohesion', 'perception', 'spring', 'bloom',
+] as const;
+
+export type AutomatedParam = (typeof AUTOMATED_PARAMS)[number];
+
+export interface Choreography {
+  /** Seconds — the show ends (or loops) here */
+  duration: number;
+  loop: boolean;
+  /** Sorted by time */
+  cues: Cue[];
+  camera: CameraKeyframe[];
+  automation: Partial<Record<AutomatedParam, AutomationKey[]>>;
+}
+
+export class ChoreographyError extends Error {
+  constructor(readonly issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'ChoreographyError';
+  }
+}
+
+/** Longest show accepted — a whole evening */
+const MAX_SECONDS = 6 * 60 * 60;
+const STORAGE_KEY = 'void.choreography';
+
+export function emptyChoreography(): Choreography {
+  return { duration: 0, loop: false, cues: [], camera: [], automation: {} };
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function byTime<K extends { time: number }>(a: K, b: K): number {
+  return a.time - b.time;
+}
+
+export function serializeChoreography(show: Choreography): string {
+  const doc = {
+    format: CHOREOGRAPHY_FORMAT,
+    version: CHOREOGRAPHY_VERSION,
+    duration: show.duration,
+    loop: show.loop,
+    cues: show.cues,
+    // Poses are flattened into their keys so hand-editing stays simple
+    camera: show.camera.map(({ time, pose }) => ({ time, ...pose })),
+    automation: show.automation,
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+/** True if `json` claims to be a choreography — for routing dropped files */
+export function isChoreography(json: string): boolean {
+  try {
+    const raw: unknown = JSON.parse(json);
+    return isObject(raw) && raw.format === CHOREOGRAPHY_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses and validates a show. Mode cues must name one of `modeNames`.
+ * Throws `ChoreographyError` listing every problem if the show is unusable;
+ * otherwise returns it with warnings about what was repaired.
+ */
+export function parseChoreography(json: string, modeNames: string[]): { show: Choreography; warnings: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new ChoreographyError([`not valid JSON: ${(err as Error).message}`]);
+  }
+  if (!isObject(raw)) throw new ChoreographyError(['expected a choreography object']);
+  const doc = raw;
+  if (raw.format !== CHOREOGRAPHY_FORMAT) {
+    throw new ChoreographyError([`format: expected "${CHOREOGRAPHY_FORMAT}"`]);
+  }
+  if (!isNumber(raw.version) || raw.version < 1 || raw.version > CHOREOGRAPHY_VERSION) {
+    throw new ChoreographyError([`version: unsupported (this build reads up to ${CHOREOGRAPHY_VERSION})`]);
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  function time(v: unknown, path: string): number | null {
+    if (!isNumber(v)) {
+      errors.push(`${path}.time: expected a number of seconds`);
+      return null;
+    }
+    if (v < 0 || v > MAX_SECONDS) {
+      warnings.push(`${path}.time: ${v} clamped to 0–${MAX_SECONDS}`);
+      return Math.max(0, Math.min(MAX_SECONDS, v));
+    }
+    return v;
+  }
+
+  function list(key: string): unknown[] {
+    const v = doc[key];
+    if (v === undefined) return [];
+    if (Array.isArray(v)) return v;
+    errors.push(`${key}: expected an array`);
+    return [];
+  }
+
+  // ── Cues
+  const cues: Cue[] = [];
+  list('cues').forEach((c, i) => {
+    const path = `cues[${i}]`;
+    if (!isObject(c)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    const t = time(c.time, path);
+    if (t === null) return;
+    switch (c.type) {
+      case 'mode':
+        if (typeof c.mode !== 'string') errors.push(`${path}.mode: expected a mode name`);
+        else if (!modeNames.includes(c.mode)) warnings.push(`${path}.mode: unknown mode "${c.mode}" — skipped`);
+        else cues.push({ time: t, type: 'mode', mode: c.mode });
+        break;
+      case 'color':
+        if (c.hue === null || c.hue === 'auto') cues.push({ time: t, type: 'color', hue: null });
+        else if (isNumber(c.hue)) cues.push({ time: t, type: 'color', hue: ((c.hue % 1) + 1) % 1 });
+        else errors.push(`${path}.hue: expected a number (0-1) or null`);
+        break;
+      case 'burst': {
+        if (!isNumber(c.x) || !isNumber(c.y)) {
+          errors.push(`${path}: expected numeric x and y`);
+          break;
+        }
+        const x = Math.max(-BOUNDS, Math.min(BOUNDS, c.x));
+        const y = Math.max(-BOUNDS, Math.min(BOUNDS, c.y));
+        if (x !== c.x || y !== c.y) warnings.push(`${path}: position clamped to ±${BOUNDS}`);
+        cues.push({ time: t, type: 'burst', x, y, push: c.push === true });
+        break;
+      }
+      default:
+        errors.push(`${path}.type: expected "mode", "color" or "burst"`);
+    }
+  });
+
+  // ── Camera
+  const camera: CameraKeyframe[] = [];
+  list('camera').forEach((k, i) => {
+    const path = `camera[${i}]`;
+    if (!isObject(k)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    const t = time(k.time, path);
+    if (!isNumber(k.yaw) || !isNumber(k.pitch) || !isNumber(k.distance)) {
+      errors.push(`${path}: expected numeric yaw, pitch and distance`);
+      return;
+    }
+    if (t === null) return;
+    const pose: CameraPose = {
+      yaw: k.yaw,
+      pitch: k.pitch,
+      distance: k.distance,
+      x: isNumber(k.x) ? k.x : 0,
+      y: isNumber(k.y) ? k.y : 0,
+      z: isNumber(k.z) ? k.z : 0,
+    };
+    const clamped = clampPose(pose);
+    if ((Object.keys(pose) as (keyof CameraPose)[]).some((key) => pose[key] !== clamped[key])) {
+      warnings.push(`${path}: pose clamped to the camera's limits`);
+    }
+    camera.push({ time: t, pose: clamped });
+  });
+
+  // ── Automation
+  const automation: Choreography['automation'] = {};
+  if (raw.automation !== undefined && !isObject(raw.automation)) errors.push('automation: expected an object');
+  for (const [param, keys] of Object.entries(isObject(raw.automation) ? raw.automation : {})) {
+    const path = `automation.${param}`;
+    if (!(AUTOMATED_PARAMS as readonly string[]).includes(param)) {
+      warnings.push(`${path}: not an automatable parameter — skipped`);
+      continue;
+    }
+    if (!Array.isArray(keys)) {
+      errors.push(`${path}: expected an array of { time, value }`);
+      continue;
+    }
+    const [lo, hi] = SCALAR_LIMITS[param as AutomatedParam];
+    const track: AutomationKey[] = [];
+    keys.forEach((k, i) => {
+      if (!isObject(k) || !isNumber(k.value)) {
+        errors.push(`${path}[${i}]: expected { time, value }`);
+        return;
+      }
+      const t = time(k.time, `${path}[${i}]`);
+      if (t === null) return;
+      const value = Math.max(lo, Math.min(hi, k.value));
+      if (value !== k.value) warnings.push(`${path}[${i}].value: ${k.value} clamped to ${lo}–${hi}`);
+      track.push({ time: t, value });
+    });
+    if (track.length) automation[param as AutomatedParam] = track.sort(byTime);
+  }
+
+  if (errors.length > 0) throw new ChoreographyError(errors);
+
+  cues.sort(byTime);
+  camera.sort(byTime);
+  const last = Math.max(
+    0,
+    ...cues.map((c) => c.time),
+    ...camera.map((k) => k.time),
+    ...Object.values(automation).flatMap((track) => track.map((k) => k.time))
+  );
+  let duration = last;
+  if (raw.duration !== undefined) {
+    if (!isNumber(raw.duration)) {
+      warnings.push('duration: not a number — using the last key');
+    } else if (raw.duration < last) {
+      warnings.push(`duration: ${raw.duration}s ends before the last key — extended to ${last}s`);
+    } else {
+      duration = Math.min(MAX_SECONDS, raw.duration);
+    }
+  }
+
+  return { show: { duration, loop: raw.loop === true, cues, camera, automation }, warnings };
+}
+
+/** The stored show, or an empty one */
+export function loadChoreography(modeNames: string[], storage: Storage = localStorage): Choreography {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? parseChoreography(raw, modeNames).show : emptyChoreography();
+  } catch {
+    // Corrupt entry, a mode since deleted or storage disabled — start empty
+    return emptyChoreography();
+  }
+}
+
+export function saveChoreography(show: Choreography, storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, serializeChoreography(show));
+  } catch {
+    // Quota exceeded or private browsing — the show stays session-only
+  }
+}
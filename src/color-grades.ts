@@ -0,0 +1,66 @@
+// ─── Color Grades ─────────────────────────────────────────
+// Named color grading looks, baked into small 3D lookup tables the post
+// stack samples. A grade maps an RGB color (0–1 per channel) to another;
+// baking makes any look cost the same single texture read.
+
+type Grade = (r: number, g: number, b: number) => [number, number, number];
+
+/** Texels along each edge of a baked table */
+export const LUT_SIZE = 16;
+
+function luma(r: number, g: number, b: number): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(v: number, k: number): number {
+  return (v - 0.5) * k + 0.5;
+}
+
+export const GRADES: Record<string, Grade> = {
+  none: (r, g, b) => [r, g, b],
+  warm: (r, g, b) => [r * 1.08 + 0.02, g + 0.01, b * 0.86],
+  cool: (r, g, b) => [r * 0.88, g * 0.98 + 0.01, b * 1.1 + 0.02],
+  // Shadows lean teal, highlights orange
+  'teal-orange': (r, g, b) => {
+    const l = luma(r, g, b);
+    return [r - 0.06 * (1 - l) + 0.1 * l, g + 0.02 * (1 - l) + 0.02 * l, b + 0.07 * (1 - l) - 0.1 * l];
+  },
+  // Bleach bypass: half the color gone and the contrast up
+  bleach: (r, g, b) => {
+    const l = luma(r, g, b);
+    return [contrast((r + l) / 2, 1.25), contrast((g + l) / 2, 1.25), contrast((b + l) / 2, 1.25)];
+  },
+  noir: (r, g, b) => {
+    const l = luma(r, g, b);
+    const s = l * l * (3 - 2 * l);
+    return [s, s, s * 1.02];
+  },
+  // Lifted blacks with a violet cast, slightly washed out
+  dream: (r, g, b) => {
+    const l = luma(r, g, b);
+    const wash = (v: number) => v * 0.85 + l * 0.1;
+    return [wash(r) + 0.05, wash(g) + 0.02, wash(b) + 0.08];
+  },
+};
+
+export const GRADE_NAMES = Object.keys(GRADES);
+
+/** RGBA texels of `name`'s lookup table, red varying fastest */
+export function bakeGrade(name: string, size = LUT_SIZE): Uint8Array {
+  const grade = GRADES[name] ?? GRADES.none;
+  const data = new Uint8Array(size * size * size * 4);
+  const byte = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+  let i = 0;
+  for (let z = 0; z < size; z++) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const [r, g, b] = grade(x / (size - 1), y / (size - 1), z / (size - 1));
+        data[i++] = byte(r);
+        data[i++] = byte(g);
+        data[i++] = byte(b);
+        data[i++] = 255;
+      }
+    }
+  }
+  return data;
+}
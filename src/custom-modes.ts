@@ -0,0 +1,56 @@
+// ─── Custom Modes ─────────────────────────────────────────
+// User-defined modes cloned from a preset and persisted in localStorage.
+
+import { MODES, type Mode } from './modes.ts';
+import { validateMode } from './mode-pack.ts';
+
+const STORAGE_KEY = 'void.customModes';
+
+/**
+ * Entries saved before modes carried their own chord only name the preset
+ * they were cloned from (`base`) — they take that preset's chord.
+ */
+function migrate(entry: unknown): unknown {
+  if (!entry || typeof entry !== 'object') return entry;
+  const { base, ...rest } = entry as Record<string, unknown>;
+  if ('chord' in rest) return rest;
+  const preset = MODES.find((m) => m.name === base);
+  return preset ? { ...rest, chord: [...preset.chord] } : rest;
+}
+
+export function loadCustomModes(storage: Storage = localStorage): Mode[] {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => validateMode(migrate(entry)).mode ?? []);
+  } catch {
+    // Corrupt entry or storage disabled — start without custom modes
+    return [];
+  }
+}
+
+export function saveCustomModes(modes: Mode[], storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(modes));
+  } catch {
+    // Quota exceeded or private browsing — custom modes stay session-only
+  }
+}
+
+export function cloneMode(m: Mode, name: string): Mode {
+  return {
+    ...m,
+    name,
+    hueRange: [...m.hueRange],
+    satRange: [...m.satRange],
+    lightRange: [...m.lightRange],
+    sizeRange: [...m.sizeRange],
+    lifeRange: [...m.lifeRange],
+    alphaCurve: [...m.alphaCurve],
+    sizeCurve: [...m.sizeCurve],
+    chord: [...m.chord],
+    scale: [...m.scale],
+  };
+}
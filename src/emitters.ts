@@ -0,0 +1,126 @@
+// ─── Emitters ─────────────────────────────────────────────
+// Where particles are reborn once their lifespan runs out: a fountain
+// below the center, a ring around it, or comets crossing the field that
+// shed particles as they go. 'none' leaves rebirth to the simulation's
+// usual scattered layout. No DOM dependency.
+
+import type { Random } from './random.ts';
+
+export const EMITTER_KINDS = ['none', 'fountain', 'ring', 'comet'] as const;
+
+export type EmitterKind = (typeof EMITTER_KINDS)[number];
+
+/** A birth: position, and velocity in units per 60 Hz frame */
+export interface Spawn {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+interface Comet {
+  x: number;
+  y: number;
+  z: number;
+  /** Unit heading in the XY plane */
+  dx: number;
+  dy: number;
+  /** Units per second */
+  speed: number;
+}
+
+const COMETS = 5;
+const COMET_SPEED: [number, number] = [22, 40];
+const RING_RADIUS = 1.5;
+
+export class Emitters {
+  private comets: Comet[] = [];
+
+  /** `bounds` is the half extent of the field comets cross */
+  constructor(private bounds: number, private random: Random) {}
+
+  /** Moves whatever the emitter of `kind` moves — only comets do */
+  update(kind: EmitterKind, dt: number) {
+    if (kind !== 'comet') return;
+    if (this.comets.length === 0) {
+      for (let i = 0; i < COMETS; i++) {
+        const c = this.launch();
+        // Spread along their paths, so they don't arrive as a wave
+        this.advance(c, this.random() * (this.bounds * 2) / c.speed);
+        this.comets.push(c);
+      }
+    }
+    for (let i = 0; i < this.comets.length; i++) {
+      const c = this.comets[i];
+      this.advance(c, dt);
+      const edge = this.bounds * 1.2;
+      if (c.y < -edge || Math.abs(c.x) > edge) this.comets[i] = this.launch();
+    }
+  }
+
+  /** Fills `out` with a birth from the emitter of `kind`. False for 'none'. */
+  spawn(kind: EmitterKind, speed: number, out: Spawn): boolean {
+    const { random } = this;
+    switch (kind) {
+      case 'fountain':
+        out.x = (random() - 0.5) * 1.5;
+        out.y = -this.bounds * 0.5;
+        out.z = (random() - 0.5) * 1.5;
+        out.vx = (random() - 0.5) * speed * 0.5;
+        out.vy = speed * (0.7 + random() * 0.6);
+        out.vz = (random() - 0.5) * speed * 0.3;
+        return true;
+      case 'ring': {
+        const a = random() * Math.PI * 2;
+        const dx = Math.cos(a);
+        const dy = Math.sin(a);
+        const v = speed * (0.6 + random() * 0.6);
+        out.x = dx * RING_RADIUS;
+        out.y = dy * RING_RADIUS;
+        out.z = (random() - 0.5) * 0.5;
+        out.vx = dx * v;
+        out.vy = dy * v;
+        out.vz = (random() - 0.5) * speed * 0.3;
+        return true;
+      }
+      case 'comet': {
+        if (this.comets.length === 0) return false;
+        const c = this.comets[Math.floor(random() * this.comets.length)];
+        // Shed backwards, so the tail streams behind the head
+        const back = speed * random() * 0.5;
+        out.x = c.x + (random() - 0.5) * 0.8;
+        out.y = c.y + (random() - 0.5) * 0.8;
+        out.z = c.z + (random() - 0.5) * 0.8;
+        out.vx = -c.dx * back + (random() - 0.5) * speed * 0.1;
+        out.vy = -c.dy * back + (random() - 0.5) * speed * 0.1;
+        out.vz = (random() - 0.5) * speed * 0.05;
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /** A comet entering across the top edge, falling at a slant */
+  private launch(): Comet {
+    const { random, bounds } = this;
+    const angle = -Math.PI / 2 + 0.45 + (random() - 0.5) * 0.5;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    return {
+      x: (random() * 2 - 1.4) * bounds,
+      y: bounds * 1.15,
+      z: (random() - 0.5) * bounds * 0.5,
+      dx,
+      dy,
+      speed: COMET_SPEED[0] + random() * (COMET_SPEED[1] - COMET_SPEED[0]),
+    };
+  }
+
+  private advance(c: Comet, dt: number) {
+    c.x += c.dx * c.speed * dt;
+    c.y += c.dy * c.speed * dt;
+  }
+}
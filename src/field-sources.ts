@@ -0,0 +1,60 @@
+// ─── Field Sources ────────────────────────────────────────
+// Persistent forces placed in the scene: attractors, repulsors and vortex
+// emitters. Unlike the cursor they stay put until removed or until their
+// lifetime runs out, so a scene can be composed rather than just poked.
+
+export type SourceKind = 'attractor' | 'repulsor' | 'vortex';
+
+export const SOURCE_KINDS: SourceKind[] = ['attractor', 'repulsor', 'vortex'];
+
+export interface FieldSource {
+  kind: SourceKind;
+  x: number;
+  y: number;
+  z: number;
+  strength: number;
+  /** Beyond this distance the source has no effect */
+  radius: number;
+  /** Exponent on (1 - d / radius) — higher concentrates force at the center */
+  falloff: number;
+  /** Seconds left, or null to stay until removed */
+  lifetime: number | null;
+}
+
+export const MAX_SOURCES = 16;
+
+export type SourceParam = 'strength' | 'radius' | 'falloff' | 'lifetime';
+
+export const SOURCE_LIMITS: Record<SourceParam, [number, number]> = {
+  strength: [0.1, 5],
+  radius: [2, 40],
+  falloff: [0.25, 4],
+  lifetime: [0.5, 600],
+};
+
+/** A source's force fades out over its final second */
+const FADE_TIME = 1;
+
+export function createSource(kind: SourceKind, x: number, y: number, z = 0): FieldSource {
+  return { kind, x, y, z, strength: 1, radius: 14, falloff: 1, lifetime: null };
+}
+
+/** Current force multiplier, 0–1, accounting for the end-of-life fade */
+export function sourceFade(s: FieldSource): number {
+  return s.lifetime === null ? 1 : Math.max(0, Math.min(1, s.lifetime / FADE_TIME));
+}
+
+/** Counts down lifetimes and removes expired sources in place */
+export function ageSources(sources: FieldSource[], dt: number) {
+  for (let i = sources.length - 1; i >= 0; i--) {
+    const s = sources[i];
+    if (s.lifetime === null) continue;
+    s.lifetime -= dt;
+    if (s.lifetime <= 0) sources.splice(i, 1);
+  }
+}
+
+export function clampSourceValue(key: SourceParam, v: number): number {
+  const [lo, hi] = SOURCE_LIMITS[key];
+  return Math.max(lo, Math.min(hi, v));
+}
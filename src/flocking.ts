@@ -0,0 +1,123 @@
+// ─── Flocking Field ───────────────────────────────────────
+// Boids at 75k particles can't afford per-pair neighbor loops, so each
+// step bins particles into a coarse grid (cell = perception radius) and
+// every particle reads its neighborhood's center of mass, mean velocity
+// and crowding by trilinear interpolation between cell centers. Crowding
+// only spreads dense regions out; keeping close neighbors apart is left
+// to a short-range push in the simulation.
+
+export const PERCEPTION_MIN = 2;
+
+export class FlockField {
+  /** Neighborhood sampled by the last `sample` call */
+  cx = 0;
+  cy = 0;
+  cz = 0;
+  vx = 0;
+  vy = 0;
+  vz = 0;
+  /** Local count relative to the average occupied cell — 1 is typical */
+  crowd = 0;
+
+  private half: [number, number, number];
+  private cell = PERCEPTION_MIN;
+  private inv = 1 / PERCEPTION_MIN;
+  private nx = 1;
+  private ny = 1;
+  private nz = 1;
+  private meanCount = 1;
+  // Per cell: sum x, y, z, vx, vy, vz, count
+  private sums: Float64Array;
+
+  constructor(halfExtents: [number, number, number]) {
+    this.half = halfExtents;
+    // Sized for the finest grid so changing perception never reallocates
+    const cells = halfExtents.reduce((n, h) => n * (Math.ceil((h * 2) / PERCEPTION_MIN) + 1), 1);
+    this.sums = new Float64Array(cells * 7);
+  }
+
+  build(positions: Float32Array, velocities: Float32Array, count: number, perception: number) {
+    const cell = Math.max(PERCEPTION_MIN, perception);
+    const [hx, hy, hz] = this.half;
+    this.cell = cell;
+    this.inv = 1 / cell;
+    this.nx = Math.ceil((hx * 2) / cell) + 1;
+    this.ny = Math.ceil((hy * 2) / cell) + 1;
+    this.nz = Math.ceil((hz * 2) / cell) + 1;
+
+    const { sums, inv, nx, ny, nz } = this;
+    sums.fill(0, 0, nx * ny * nz * 7);
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const px = positions[i3], py = positions[i3 + 1], pz = positions[i3 + 2];
+      let gx = ((px + hx) * inv + 0.5) | 0;
+      let gy = ((py + hy) * inv + 0.5) | 0;
+      let gz = ((pz + hz) * inv + 0.5) | 0;
+      gx = gx < 0 ? 0 : gx >= nx ? nx - 1 : gx;
+      gy = gy < 0 ? 0 : gy >= ny ? ny - 1 : gy;
+      gz = gz < 0 ? 0 : gz >= nz ? nz - 1 : gz;
+      const c = ((gz * ny + gy) * nx + gx) * 7;
+      sums[c] += px;
+      sums[c + 1] += py;
+      sums[c + 2] += pz;
+      sums[c + 3] += velocities[i3];
+      sums[c + 4] += velocities[i3 + 1];
+      sums[c + 5] += velocities[i3 + 2];
+      sums[c + 6] += 1;
+    }
+
+    let occupied = 0;
+    for (let c = 6; c < nx * ny * nz * 7; c += 7) {
+      if (sums[c] > 0) occupied++;
+    }
+    this.meanCount = occupied > 0 ? count / occupied : 1;
+  }
+
+  /** Fills cx..vz and crowd for a point. Returns false in an empty region. */
+  sample(px: number, py: number, pz: number): boolean {
+    const { sums, nx, ny, nz } = this;
+    // Grid nodes sit at cell centers: node g is at g * cell - half
+    const mx = nx - 1.001, my = ny - 1.001, mz = nz - 1.001;
+    let fx = (px + this.half[0]) * this.inv;
+    let fy = (py + this.half[1]) * this.inv;
+    let fz = (pz + this.half[2]) * this.inv;
+    fx = fx < 0 ? 0 : fx > mx ? mx : fx;
+    fy = fy < 0 ? 0 : fy > my ? my : fy;
+    fz = fz < 0 ? 0 : fz > mz ? mz : fz;
+    const x0 = fx | 0, y0 = fy | 0, z0 = fz | 0;
+    const tx = fx - x0, ty = fy - y0, tz = fz - z0;
+
+    // Corner weights, unrolled — this runs once per particle per step
+    const ux = 1 - tx, uy = 1 - ty, uz = 1 - tz;
+    const row = nx * 7;
+    const slab = ny * row;
+    const c0 = ((z0 * ny + y0) * nx + x0) * 7;
+    let sx = 0, sy = 0, sz = 0, svx = 0, svy = 0, svz = 0, n = 0;
+    for (let k = 0; k < 8; k++) {
+      const w = (k & 1 ? tx : ux) * (k & 2 ? ty : uy) * (k & 4 ? tz : uz);
+      if (w === 0) continue;
+      const c = c0 + (k & 1 ? 7 : 0) + (k & 2 ? row : 0) + (k & 4 ? slab : 0);
+      const count = sums[c + 6];
+      if (count === 0) continue;
+      sx += sums[c] * w;
+      sy += sums[c + 1] * w;
+      sz += sums[c + 2] * w;
+      svx += sums[c + 3] * w;
+      svy += sums[c + 4] * w;
+      svz += sums[c + 5] * w;
+      n += count * w;
+    }
+
+    if (n < 1e-3) return false;
+    const invN = 1 / n;
+    this.cx = sx * invN;
+    this.cy = sy * invN;
+    this.cz = sz * invN;
+    this.vx = svx * invN;
+    this.vy = svy * invN;
+    this.vz = svz * invN;
+    this.crowd = n / this.meanCount;
+    return true;
+  }
+}
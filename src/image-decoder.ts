@@ -0,0 +1,44 @@
+// ─── Image Decoder ────────────────────────────────────────
+// Decodes a dropped picture and samples it into morph targets inside a
+// short-lived worker, so big files never stall the render loop. Falls back
+// to doing the same work in-thread if the worker can't (no module workers,
+// no OffscreenCanvas) — a file that really is broken fails there too.
+
+import { imageToTargets, type ImageTargets } from './image-sampler.ts';
+import { createRandom } from './random.ts';
+
+export interface ImageRequest {
+  image: Blob;
+  count: number;
+  /** See `sampleImage` — 0 keeps the picture flat */
+  depth: number;
+  /** Seeds the sampling stream — a function can't cross into the worker */
+  seed: number;
+}
+
+export type ImageResponse =
+  | ({ type: 'done' } & ImageTargets)
+  | { type: 'error'; message: string };
+
+/** Samples `image` off the main thread. Rejects if it can't be decoded. */
+export function decodeImage(request: ImageRequest): Promise<ImageTargets> {
+  const inThread = () => imageToTargets(request.image, request.count, request.depth, createRandom(request.seed));
+  if (typeof Worker === 'undefined') return inThread();
+
+  return new Promise((resolve, reject) => {
+    const fallBack = (reason: string) => {
+      worker.terminate();
+      console.warn('Image worker failed, decoding in-thread:', reason);
+      inThread().then(resolve, reject);
+    };
+    const worker = new Worker(new URL('./image-decoder.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ImageResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'error') return fallBack(msg.message);
+      worker.terminate();
+      resolve({ positions: msg.positions, colors: msg.colors });
+    };
+    worker.onerror = (e) => fallBack(e.message);
+    worker.postMessage(request);
+  });
+}
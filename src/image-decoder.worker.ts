@@ -0,0 +1,20 @@
+// ─── Image Decoder Worker ─────────────────────────────────
+// One request, one response: decode, downscale and sample a picture.
+
+import { imageToTargets } from './image-sampler.ts';
+import type { ImageRequest, ImageResponse } from './image-decoder.ts';
+import { createRandom } from './random.ts';
+
+function post(msg: ImageResponse, transfer: Transferable[] = []) {
+  self.postMessage(msg, { transfer });
+}
+
+self.onmessage = async (e: MessageEvent<ImageRequest>) => {
+  try {
+    const { image, count, depth, seed } = e.data;
+    const { positions, colors } = await imageToTargets(image, count, depth, createRandom(seed));
+    post({ type: 'done', positions, colors }, [positions.buffer, colors.buffer]);
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
@@ -0,0 +1,99 @@
+// ─── Image Sampler ────────────────────────────────────────
+// Turns pictures into morph targets with per-particle colors. Bright
+// pixels draw more particles than dark ones, so black backgrounds stay
+// empty. `sampleImage` is pure; decoding needs createImageBitmap and
+// OffscreenCanvas, available in workers as well as on the main thread.
+
+import { Color, SRGBColorSpace } from 'three';
+import { fitScale } from './shape-sampler.ts';
+import type { Random } from './random.ts';
+
+export interface ImageTargets {
+  positions: Float32Array;
+  /** Linear RGB, the same space `Color.setHSL` writes */
+  colors: Float32Array;
+}
+
+/** Rec. 709 luma of an sRGB pixel, 0–1 */
+function luminance(r: number, g: number, b: number): number {
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+/**
+ * Samples `count` particles from a `width`×`height` RGBA buffer. `depth`
+ * pushes bright pixels towards the camera by up to half that many units
+ * (0 keeps the picture flat). Returns empty arrays for an all-black image.
+ */
+export function sampleImage(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  count: number,
+  random: Random,
+  depth = 0
+): ImageTargets {
+  // Cumulative brightness, so a uniform draw lands on a pixel in
+  // proportion to how bright it is
+  const total = width * height;
+  const cdf = new Float64Array(total);
+  let sum = 0;
+  for (let p = 0; p < total; p++) {
+    const o = p * 4;
+    sum += luminance(pixels[o], pixels[o + 1], pixels[o + 2]) * (pixels[o + 3] / 255);
+    cdf[p] = sum;
+  }
+  if (sum === 0) return { positions: new Float32Array(0), colors: new Float32Array(0) };
+
+  const scale = fitScale(width, height);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const color = new Color();
+
+  for (let i = 0; i < count; i++) {
+    const target = random() * sum;
+    let lo = 0, hi = total - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] <= target) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const o = lo * 4;
+    const r = pixels[o], g = pixels[o + 1], b = pixels[o + 2];
+    const i3 = i * 3;
+    positions[i3] = ((lo % width) + random() - width / 2) * scale;
+    positions[i3 + 1] = (height / 2 - Math.floor(lo / width) - random()) * scale;
+    positions[i3 + 2] = (luminance(r, g, b) - 0.5) * depth + (random() - 0.5) * 0.5;
+
+    color.setRGB(r / 255, g / 255, b / 255, SRGBColorSpace);
+    colors[i3] = color.r;
+    colors[i3 + 1] = color.g;
+    colors[i3 + 2] = color.b;
+  }
+  return { positions, colors };
+}
+
+/** Pixels kept per particle — detail beyond that is never sampled */
+const PIXELS_PER_PARTICLE = 2;
+
+/** Decodes `image`, downscaled so it has at most `maxPixels` pixels */
+export async function decodePixels(image: Blob, maxPixels: number) {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, Math.sqrt(maxPixels / (bitmap.width * bitmap.height)));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  // Main-thread fallback may lack OffscreenCanvas (older Safari)
+  const ctx =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height).getContext('2d')!
+      : Object.assign(document.createElement('canvas'), { width, height }).getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { pixels: ctx.getImageData(0, 0, width, height).data, width, height };
+}
+
+export async function imageToTargets(image: Blob, count: number, depth: number, random: Random): Promise<ImageTargets> {
+  const { pixels, width, height } = await decodePixels(image, count * PIXELS_PER_PARTICLE);
+  return sampleImage(pixels, width, height, count, random, depth);
+}
@@ -1,138 +1,142 @@
 import * as THREE from 'three';
-import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
-import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
-import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
-import { AmbientSound } from './audio.ts';
-
-// ─── Performance Detection ───────────────────────────────
-const isMobile = /iPhone|iPad|Android/i.test(navigator.userAgent) || window.innerWidth < 768;
-const COUNT = isMobile ? 30_000 : 75_000;
-const BOUNDS = 40;
+import { PostStack } from './post-stack.ts';
+import { AmbientSound, type SoundPlacement } from './audio.ts';
+import { MODES, DEFAULT_MODE, type Mode } from './modes.ts';
+import { createSimulation } from './simulation-host.ts';
+import { BOUNDS, type Pointer } from './simulation.ts';
+import { createRandom, deriveSeed, randomSeed, type Random } from './random.ts';
+import { cloneMode, loadCustomModes, saveCustomModes } from './custom-modes.ts';
+import { parseModePack, serializeModePack, ModePackError } from './mode-pack.ts';
+import { downloadBlob } from './download.ts';
+import { encodeWav } from './wav.ts';
+import { ModeEditor, APPEARANCE_FIELDS } from './mode-editor.ts';
+import { decodeSceneState, encodeSceneState, type SceneState } from './scene-state.ts';
+import { CameraRig, defaultPose } from './camera-rig.ts';
+import { CameraPath } from './camera-path.ts';
+import {
+  MAX_SOURCES,
+  clampSourceValue,
+  createSource,
+  SOURCE_KINDS,
+  type FieldSource,
+  type SourceKind,
+} from './field-sources.ts';
+import { SourceMarkers } from './source-markers.ts';
+import { sampleShape } from './shapes.ts';
+import { sampleSvg, sampleText } from './shape-sampler.ts';
+import { MorphPanel } from './morph-panel.ts';
+import { decodeImage } from './image-decoder.ts';
+import { AudioInput, type AudioSourceKind } from './audio-input.ts';
+import { ReactPanel } from './react-panel.ts';
+import { CanvasRecorder } from './recorder.ts';
+import { captureSnapshot } from './snapshot.ts';
+import { CapturePanel } from './capture-panel.ts';
+import { QualityGovernor, QUALITY_LEVELS } from './quality-governor.ts';
+import { PointerGestures, type TrackedPointer } from './pointer-gestures.ts';
+import {
+  ChoreographyError,
+  isChoreography,
+  loadChoreography,
+  parseChoreography,
+  saveChoreography,
+  serializeChoreography,
+  type Choreography,
+} from './choreography.ts';
+import { ShowClock, Timeline } from './timeline.ts';
+import { ShowPanel } from './show-panel.ts';
+import { COLOR_SOURCES, GRADIENT_WIDTH, paletteCss, paletteGradient, type ColorSource, type Palette } from './palettes.ts';
+import { PalettePanel } from './palette-panel.ts';
+import { Autopilot, DEFAULT_KIOSK, parseKioskOptions } from './autopilot.ts';
+
+// ─── Quality ──────────────────────────────────────────────
+// COUNT is the capacity; the governor decides how much of it is in use
+const COUNT = 75_000;
+/** Starts a step below the top and lets measured frame times move it */
+const governor = new QualityGovernor(QUALITY_LEVELS.length - 2);
+/** Pixel ratio point sizes were tuned at — sizes scale with the ratio in use */
+const REFERENCE_PIXEL_RATIO = Math.min(window.devicePixelRatio, 2);
+/** Particles over which the draw-range edge fades, so count changes never pop */
+const COUNT_FADE = 4000;
+/** Particles per second the drawn count moves towards its target */
+const COUNT_RATE = COUNT * 0.15;
 const CAMERA_Z = 60;
-const DEFAULT_MODE = 4; // void
-
-// ─── Mode Definitions ────────────────────────────────────
-interface Mode {
-  name: string;
-  desc: string;
-  hueRange: [number, number];
-  satRange: [number, number];
-  lightRange: [number, number];
-  damping: number;
-  mouseForce: number;
-  drift: number;
-  centerPull: number;
-  equilibrium: number;
-  swirl: number;
-  sizeRange: [number, number];
-  bloom: number;
-  depthRange: number;
-}
-
-const MODES: Mode[] = [
-  {
-    name: 'nebula',
-    desc: 'gentle drift through deep space clouds',
-    hueRange: [0.58, 0.82],
-    satRange: [0.5, 1.0],
-    lightRange: [0.3, 0.75],
-    damping: 0.988,
-    mouseForce: 12,
-    drift: 0.02,
-    centerPull: 0.0008,
-    equilibrium: 12,
-    swirl: 0.0,
-    sizeRange: [0.4, 2.8],
-    bloom: 1.5,
-    depthRange: 25,
-  },
-  {
-    name: 'solar',
-    desc: 'the heart of a burning star',
-    hueRange: [0.0, 0.1],
-    satRange: [0.7, 1.0],
-    lightRange: [0.45, 0.9],
-    damping: 0.982,
-    mouseForce: 18,
-    drift: 0.04,
-    centerPull: 0.002,
-    equilibrium: 8,
-    swirl: 0.0,
-    sizeRange: [0.3, 3.5],
-    bloom: 2.2,
-    depthRange: 18,
-  },
-  {
-    name: 'aurora',
-    desc: 'flowing curtains of light',
-    hueRange: [0.28, 0.52],
-    satRange: [0.6, 1.0],
-    lightRange: [0.3, 0.7],
-    damping: 0.993,
-    mouseForce: 6,
-    drift: 0.012,
-    centerPull: 0.0004,
-    equilibrium: 15,
-    swirl: 0.002,
-    sizeRange: [0.3, 2.2],
-    bloom: 1.2,
-    depthRange: 30,
-  },
-  {
-    name: 'vortex',
-    desc: 'spiral into the infinite',
-    hueRange: [0.0, 1.0],
-    satRange: [0.8, 1.0],
-    lightRange: [0.4, 0.7],
-    damping: 0.984,
-    mouseForce: 10,
-    drift: 0.01,
-    centerPull: 0.003,
-    equilibrium: 10,
-    swirl: 0.02,
-    sizeRange: [0.2, 2.0],
-    bloom: 1.8,
-    depthRange: 12,
-  },
-  {
-    name: 'void',
-    desc: 'silence between the stars',
-    hueRange: [0.55, 0.68],
-    satRange: [0.03, 0.15],
-    lightRange: [0.5, 0.95],
-    damping: 0.996,
-    mouseForce: 4,
-    drift: 0.005,
-    centerPull: 0.0002,
-    equilibrium: 18,
-    swirl: 0.0,
-    sizeRange: [0.15, 1.2],
-    bloom: 2.8,
-    depthRange: 40,
-  },
-];
 
 // ─── Shaders ──────────────────────────────────────────────
+// Palette sources are numbered in COLOR_SOURCES order: random, speed,
+// distance, depth, age. `uPaletteFade` crossfades from the previous palette,
+// `uPaletteMix` from the particles' own colors. Mortal particles (aLife > 0)
+// scale alpha and size by the mode's birth/mid/death curves.
 const VERT = /* glsl */ `
   attribute float aSize;
   attribute float aAlpha;
+  attribute float aSpeed;
+  attribute float aAge;
+  attribute float aLife;
   uniform float uTime;
+  uniform float uVisible;
+  uniform float uPulse;
+  uniform float uPixelScale;
+  uniform sampler2D uPalette;
+  uniform sampler2D uPalettePrev;
+  uniform int uSource;
+  uniform int uSourcePrev;
+  uniform float uPaletteFade;
+  uniform float uPaletteMix;
+  uniform float uCameraDistance;
+  uniform vec3 uAlphaCurve;
+  uniform vec3 uSizeCurve;
 
   varying vec3 vColor;
   varying float vAlpha;
   varying float vDepth;
 
+  float hash(uint x) {
+    x ^= x >> 16;
+    x *= 0x7feb352du;
+    x ^= x >> 15;
+    x *= 0x846ca68bu;
+    x ^= x >> 16;
+    return float(x) / 4294967295.0;
+  }
+
+  /** Where a particle sits along the palette, 0–1 */
+  float paletteT(int source, float depth, float h) {
+    if (source == 1) return sqrt(clamp(aSpeed / 0.6, 0.0, 1.0));
+    if (source == 2) return clamp(length(position) / ${BOUNDS.toFixed(1)}, 0.0, 1.0);
+    if (source == 3) return clamp((depth - uCameraDistance) / ${(BOUNDS * 2).toFixed(1)} + 0.5, 0.0, 1.0);
+    if (source == 4) return aLife > 0.0 ? clamp(aAge / aLife, 0.0, 1.0) : fract(aAge / 30.0 + h);
+    return h;
+  }
+
+  /** A birth, mid-life, death curve eased through at \`t\` (0–1) */
+  float lifeCurve(vec3 k, float t) {
+    return t < 0.5 ? mix(k.x, k.y, smoothstep(0.0, 0.5, t)) : mix(k.y, k.z, smoothstep(0.5, 1.0, t));
+  }
+
   void main() {
-    vColor = color;
-    vAlpha = aAlpha;
+    // Particles past the visible count fade out along the draw-range edge
+    vAlpha = aAlpha * clamp((uVisible - float(gl_VertexID)) / ${COUNT_FADE.toFixed(1)}, 0.0, 1.0);
+    float life = aLife > 0.0 ? clamp(aAge / aLife, 0.0, 1.0) : -1.0;
+    if (life >= 0.0) vAlpha *= lifeCurve(uAlphaCurve, life);
 
     vec4 mv = modelViewMatrix * vec4(position, 1.0);
     float depth = -mv.z;
     vDepth = clamp(depth / 110.0, 0.0, 1.0);
 
+    vColor = color;
+    if (uPaletteMix > 0.0) {
+      float h = hash(uint(gl_VertexID));
+      vec3 next = texture2D(uPalette, vec2(paletteT(uSource, depth, h), 0.5)).rgb;
+      vec3 prev = texture2D(uPalettePrev, vec2(paletteT(uSourcePrev, depth, h), 0.5)).rgb;
+      // A second hash varies brightness the way the modes' lightness ranges do
+      float shade = 0.7 + 0.5 * hash(uint(gl_VertexID) + 0x9e3779b9u);
+      vColor = mix(color, mix(prev, next, uPaletteFade) * shade, uPaletteMix);
+    }
+
     float breath = 1.0 + 0.12 * sin(uTime * 1.5 + position.x * 0.3 + position.y * 0.25);
-    gl_PointSize = aSize * breath * (250.0 / depth);
-    gl_PointSize = clamp(gl_PointSize, 0.5, 48.0);
+    gl_PointSize = aSize * breath * uPulse * (250.0 / depth);
+    if (life >= 0.0) gl_PointSize *= lifeCurve(uSizeCurve, life);
+    gl_PointSize = clamp(gl_PointSize, 0.5, 48.0) * uPixelScale;
 
     gl_Position = projectionMatrix * mv;
   }
@@ -160,20 +164,34 @@ const FRAG = /* glsl */ `
 `;
 
 // ─── State ────────────────────────────────────────────────
-let currentMode = DEFAULT_MODE;
-let targetMode = DEFAULT_MODE;
-let modeBlend = 1.0;
-let mouseDown = false;
-let mouseActive = false;
-let repelling = false;
-let colorOverride: number | null = null; // null = mode default, number = hue (0-1)
-const mouseNDC = new THREE.Vector2(9999, 9999);
-const mouseWorld = new THREE.Vector3();
+const pointerNDC = new THREE.Vector2();
 const interactionPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
 const raycaster = new THREE.Raycaster();
 
+// ─── Custom Modes ─────────────────────────────────────────
+// Appended after the presets so built-in indices (and number keys) stay put
+const BUILTIN_COUNT = MODES.length;
+const customModes = loadCustomModes().filter((m) => !MODES.some((b) => b.name === m.name));
+MODES.push(...customModes);
+
+// ─── Initial Scene ────────────────────────────────────────
+// Restored from the URL hash so links reproduce mode, color, camera, sound and placed sources
+const initialScene = decodeSceneState(location.hash, MODES, {
+  mode: DEFAULT_MODE,
+  colorOverride: null,
+  palette: null,
+  camera: defaultPose(CAMERA_Z),
+  sound: true,
+  seed: randomSeed(),
+  sources: [],
+});
+
+// ─── Randomness ───────────────────────────────────────────
+// Sound gets its own stream so toggling audio never changes particle state
+const seed = initialScene.seed;
+
 // ─── Audio ────────────────────────────────────────────────
-const audio = new AmbientSound();
+const audio = new AmbientSound(createRandom(deriveSeed(seed, 0xa0d10)));
 
 // ─── Renderer ─────────────────────────────────────────────
 const canvas = document.getElementById('canvas') as HTMLCanvasElement;
@@ -183,8 +201,6 @@ const renderer = new THREE.WebGLRenderer({
   alpha: false,
   powerPreference: 'high-performance',
 });
-renderer.setSize(window.innerWidth, window.innerHeight);
-renderer.setPixelRatio(Math.min(window.devicePixelRatio, isMobile ? 1.5 : 2));
 renderer.setClearColor(0x000000);
 
 const scene = new THREE.Scene();
@@ -194,88 +210,47 @@ const camera = new THREE.PerspectiveCamera(
   0.1,
   200
 );
-camera.position.set(0, 0, CAMERA_Z);
-camera.lookAt(0, 0, 0);
+const rig = new CameraRig(initialScene.camera);
+rig.apply(camera);
+rig.updatePlane(interactionPlane);
 
 // ─── Post Processing ──────────────────────────────────────
-const composer = new EffectComposer(renderer);
-composer.addPass(new RenderPass(scene, camera));
-
-const bloomPass = new UnrealBloomPass(
-  new THREE.Vector2(window.innerWidth, window.innerHeight),
-  MODES[DEFAULT_MODE].bloom,
-  0.5,
-  0.15
-);
-composer.addPass(bloomPass);
-
-// ─── Particle Data ────────────────────────────────────────
-const positions = new Float32Array(COUNT * 3);
-const velocities = new Float32Array(COUNT * 3);
-const colors = new Float32Array(COUNT * 3);
-const sizes = new Float32Array(COUNT);
-const alphas = new Float32Array(COUNT);
-const targetColors = new Float32Array(COUNT * 3);
-const targetSizes = new Float32Array(COUNT);
-
+// Passes join and leave the chain as the mode's effects turn on and off
+const post = new PostStack(renderer, scene, camera, MODES[initialScene.mode].bloom);
+
+// ─── Simulation ───────────────────────────────────────────
+// Runs in a worker when the page is cross-origin isolated, in-thread otherwise
+const sim = createSimulation(COUNT, {
+  seed,
+  modes: MODES,
+  initialMode: initialScene.mode,
+  colorOverride: initialScene.colorOverride,
+  sources: initialScene.sources,
+  activeCount: targetCount(),
+});
 const tmpColor = new THREE.Color();
 
-function getHueRange(m: Mode): [number, number] {
-  if (colorOverride === null) return m.hueRange;
-  return [colorOverride - 0.06, colorOverride + 0.06];
-}
-
-function getSatRange(m: Mode): [number, number] {
-  if (colorOverride === null) return m.satRange;
-  // Boost saturation so custom colors are visible even on desaturated modes like void
-  return [Math.max(m.satRange[0], 0.5), Math.max(m.satRange[1], 0.9)];
-}
-
-function randomizeParticle(i: number, m: Mode, scatter = 1.0) {
-  const i3 = i * 3;
-
-  const theta = Math.random() * Math.PI * 2;
-  const phi = Math.acos(2 * Math.random() - 1);
-  const r = Math.pow(Math.random(), 0.6) * BOUNDS * scatter;
-
-  positions[i3] = r * Math.sin(phi) * Math.cos(theta);
-  positions[i3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-  positions[i3 + 2] = (Math.random() - 0.5) * m.depthRange * 2;
-
-  velocities[i3] = (Math.random() - 0.5) * 0.3;
-  velocities[i3 + 1] = (Math.random() - 0.5) * 0.3;
-  velocities[i3 + 2] = (Math.random() - 0.5) * 0.1;
-
-  const hr = getHueRange(m);
-  const sr = getSatRange(m);
-  const hue = hr[0] + Math.random() * (hr[1] - hr[0]);
-  const sat = sr[0] + Math.random() * (sr[1] - sr[0]);
-  const light = m.lightRange[0] + Math.random() * (m.lightRange[1] - m.lightRange[0]);
-  tmpColor.setHSL(hue, sat, light);
-
-  colors[i3] = tmpColor.r;
-  colors[i3 + 1] = tmpColor.g;
-  colors[i3 + 2] = tmpColor.b;
-
-  sizes[i] = m.sizeRange[0] + Math.random() * (m.sizeRange[1] - m.sizeRange[0]);
-  alphas[i] = 0.25 + Math.random() * 0.75;
-}
-
-for (let i = 0; i < COUNT; i++) {
-  randomizeParticle(i, MODES[DEFAULT_MODE]);
-}
-
 // ─── Geometry & Material ──────────────────────────────────
 const geometry = new THREE.BufferGeometry();
-const posAttr = new THREE.BufferAttribute(positions, 3);
-const colAttr = new THREE.BufferAttribute(colors, 3);
-const sizeAttr = new THREE.BufferAttribute(sizes, 1);
-const alphaAttr = new THREE.BufferAttribute(alphas, 1);
+const posAttr = new THREE.BufferAttribute(sim.positions, 3);
+const colAttr = new THREE.BufferAttribute(sim.colors, 3);
+const sizeAttr = new THREE.BufferAttribute(sim.sizes, 1);
+const alphaAttr = new THREE.BufferAttribute(sim.alphas, 1);
+const speedAttr = new THREE.BufferAttribute(sim.speeds, 1);
+const ageAttr = new THREE.BufferAttribute(sim.ages, 1);
+const lifeAttr = new THREE.BufferAttribute(sim.lifespans, 1);
 
 geometry.setAttribute('position', posAttr);
 geometry.setAttribute('color', colAttr);
 geometry.setAttribute('aSize', sizeAttr);
 geometry.setAttribute('aAlpha', alphaAttr);
+geometry.setAttribute('aSpeed', speedAttr);
+geometry.setAttribute('aAge', ageAttr);
+geometry.setAttribute('aLife', lifeAttr);
+
+/** Baked palette gradients — the one in effect and the one it fades from */
+let paletteTex = gradientTexture();
+let palettePrevTex = gradientTexture();
 
 const material = new THREE.ShaderMaterial({
   vertexShader: VERT,
@@ -286,55 +261,685 @@ const material = new THREE.ShaderMaterial({
   blending: THREE.AdditiveBlending,
   uniforms: {
     uTime: { value: 0 },
+    uPulse: { value: 1 },
+    uPixelScale: { value: 1 },
+    uVisible: { value: sim.activeCount + COUNT_FADE },
+    uPalette: { value: paletteTex },
+    uPalettePrev: { value: palettePrevTex },
+    uSource: { value: 0 },
+    uSourcePrev: { value: 0 },
+    uPaletteFade: { value: 1 },
+    uPaletteMix: { value: 0 },
+    uCameraDistance: { value: rig.pose.distance },
+    uAlphaCurve: { value: new THREE.Vector3(1, 1, 1) },
+    uSizeCurve: { value: new THREE.Vector3(1, 1, 1) },
   },
 });
 
+geometry.setDrawRange(0, sim.activeCount);
+
 const points = new THREE.Points(geometry, material);
+points.visible = sim.ready;
 scene.add(points);
 
-// ─── Transition Targets ──────────────────────────────────
-function precomputeTargets(m: Mode) {
-  const hr = getHueRange(m);
-  for (let i = 0; i < COUNT; i++) {
-    const i3 = i * 3;
-    const sr = getSatRange(m);
-    const hue = hr[0] + Math.random() * (hr[1] - hr[0]);
-    const sat = sr[0] + Math.random() * (sr[1] - sr[0]);
-    const light = m.lightRange[0] + Math.random() * (m.lightRange[1] - m.lightRange[0]);
-    tmpColor.setHSL(hue, sat, light);
-    targetColors[i3] = tmpColor.r;
-    targetColors[i3 + 1] = tmpColor.g;
-    targetColors[i3 + 2] = tmpColor.b;
-    targetSizes[i] = m.sizeRange[0] + Math.random() * (m.sizeRange[1] - m.sizeRange[0]);
-  }
-}
+const sourceMarkers = new SourceMarkers();
+scene.add(sourceMarkers.group);
 
 // ─── UI Wiring ────────────────────────────────────────────
-const modeButtons = document.querySelectorAll<HTMLButtonElement>('.mode-btn');
+const modeButtonsEl = document.getElementById('mode-buttons')!;
+const modeButtons = Array.from(modeButtonsEl.querySelectorAll<HTMLButtonElement>('.mode-btn'));
 const modeDescEl = document.getElementById('mode-desc')!;
+const modeLabelEl = document.getElementById('mode-label')!;
+
+/** Briefly shows a word or two at the top of the screen */
+let labelTimer = 0;
+function flashLabel(text: string) {
+  modeLabelEl.textContent = text;
+  modeLabelEl.style.opacity = '1';
+  clearTimeout(labelTimer);
+  labelTimer = window.setTimeout(() => { modeLabelEl.style.opacity = '0'; }, 1600);
+}
 
 function updateModeUI(index: number) {
   modeButtons.forEach((btn) => {
     btn.classList.toggle('active', parseInt(btn.dataset.mode!, 10) === index);
   });
   modeDescEl.textContent = MODES[index].desc;
+  modeEditor.show(MODES[index], index >= BUILTIN_COUNT);
+  morphPanel.toggle(MODES[index].spring > 0);
 }
 
 function setMode(index: number) {
-  if (index < 0 || index >= MODES.length) return;
-  if (index === currentMode && modeBlend >= 1) return;
-  targetMode = index;
-  modeBlend = 0;
-  precomputeTargets(MODES[index]);
+  if (!sim.setMode(index)) return;
   updateModeUI(index);
-  audio.setMode(index);
+  audio.setMode(MODES[index]);
+  saveSceneToUrl();
 }
 
-modeButtons.forEach((btn) => {
-  btn.addEventListener('click', () => {
-    const idx = parseInt(btn.dataset.mode!, 10);
-    setMode(idx);
+function bindModeButton(btn: HTMLButtonElement) {
+  const idx = parseInt(btn.dataset.mode!, 10);
+  const key = modeKeyLabel(idx);
+  if (key) btn.title = `Key ${key}`;
+  btn.addEventListener('click', () => setMode(idx));
+}
+
+/**
+ * Number keys: 1–9 pick the presets, then 0 and shift+1–9 the first ten
+ * custom modes in the order they were added. Digits are read from `code`
+ * so shift doesn't turn them into symbols.
+ */
+function modeForKey(e: KeyboardEvent): number | null {
+  const match = /^(?:Digit|Numpad)(\d)$/.exec(e.code);
+  if (!match) return null;
+  const d = Number(match[1]);
+  if (e.shiftKey) return d === 0 ? null : BUILTIN_COUNT + d;
+  if (d === 0) return BUILTIN_COUNT;
+  return d - 1 < BUILTIN_COUNT ? d - 1 : null;
+}
+
+/** The key `modeForKey` maps to `index`, if any */
+function modeKeyLabel(index: number): string | null {
+  if (index < BUILTIN_COUNT) return index < 9 ? String(index + 1) : null;
+  const custom = index - BUILTIN_COUNT;
+  if (custom === 0) return '0';
+  return custom <= 9 ? `shift+${custom}` : null;
+}
+
+function addModeButton(index: number) {
+  const btn = document.createElement('button');
+  btn.className = 'mode-btn';
+  btn.dataset.mode = String(index);
+  btn.textContent = MODES[index].name;
+  modeButtonsEl.append(btn);
+  modeButtons.push(btn);
+  bindModeButton(btn);
+}
+
+modeButtons.forEach(bindModeButton);
+customModes.forEach((_, i) => addModeButton(BUILTIN_COUNT + i));
+
+// ─── Mode Editor ──────────────────────────────────────────
+const editorToggle = document.getElementById('editor-toggle')!;
+
+function uniqueModeName(name: string): string {
+  let candidate = name;
+  for (let n = 2; MODES.some((m) => m.name === candidate); n++) {
+    candidate = `${name} ${n}`;
+  }
+  return candidate;
+}
+
+const modeEditor = new ModeEditor(document.getElementById('mode-editor')!, {
+  onChange(mode, key) {
+    // Physics tunables are read live; color/size ranges need new targets
+    sim.syncModes();
+    if (APPEARANCE_FIELDS.has(key)) sim.refreshColors();
+    if (key === 'chord') audio.setChord(mode.chord);
+    if (customModes.includes(mode)) saveCustomModes(customModes);
+  },
+  onClone(name) {
+    const mode = cloneMode(MODES[sim.targetMode], uniqueModeName(name));
+    customModes.push(mode);
+    MODES.push(mode);
+    saveCustomModes(customModes);
+    sim.syncModes();
+    addModeButton(MODES.length - 1);
+    setMode(MODES.length - 1);
+  },
+  onImport: importModePack,
+  onExport() {
+    const blob = new Blob([serializeModePack(MODES)], { type: 'application/json' });
+    downloadBlob(blob, 'void-modes.json');
+  },
+  onExportAudio: exportAudio,
+});
+
+/** Renders the current mode's ambience offline and downloads it as a WAV */
+async function exportAudio(seconds: number) {
+  const mode = MODES[sim.targetMode];
+  modeEditor.setStatus(`rendering ${seconds}s of ${mode.name}…`);
+  try {
+    const buffer = await AmbientSound.renderOffline({
+      mode,
+      seconds,
+      melody: audio.melody,
+      random: createRandom(deriveSeed(seed, 0xa0d1f)),
+    });
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    downloadBlob(new Blob([encodeWav(channels, buffer.sampleRate)], { type: 'audio/wav' }), `void-${mode.name}.wav`);
+    modeEditor.setStatus('');
+  } catch (err) {
+    modeEditor.setStatus(`audio export failed: ${(err as Error).message}`, true);
+  }
+}
+
+function toggleEditor() {
+  toggleSidePanel(modeEditor);
+}
+
+editorToggle.addEventListener('click', toggleEditor);
+
+// ─── Morph Targets ────────────────────────────────────────
+const MORPH_MODE = MODES.findIndex((m) => m.name === 'morph');
+
+/** Depth given to bright parts of a picture when the panel asks for it */
+const IMAGE_DEPTH = 16;
+
+/** Seeds a fresh stream per morph, so the same shape, text or picture always lands the same way */
+const MORPH_SEED = deriveSeed(seed, 0x303f);
+
+function morphRandom(): Random {
+  return createRandom(MORPH_SEED);
+}
+
+/**
+ * Re-targets the particles, switching to the morph mode unless one is
+ * active. `colors` (from a picture) replace the mode's palette.
+ */
+function morphTo(points: Float32Array, label: string, colors: Float32Array | null = null) {
+  if (points.length === 0) {
+    morphPanel.setStatus(`${label}: nothing to sample`, true);
+    return;
+  }
+  sim.setTargets(points, colors);
+  if (MODES[sim.targetMode].spring > 0) sim.refreshColors();
+  else setMode(MORPH_MODE);
+  audio.triggerColorChange();
+  morphPanel.setStatus('');
+}
+
+async function morphToSvg(file: File) {
+  try {
+    morphTo(await sampleSvg(await file.text(), COUNT, morphRandom()), file.name);
+  } catch {
+    morphPanel.setStatus(`${file.name}: not a drawable SVG`, true);
+  }
+}
+
+async function morphToImage(file: File) {
+  morphPanel.setStatus(`${file.name}: decoding…`);
+  try {
+    const { positions, colors } = await decodeImage({
+      image: file,
+      count: COUNT,
+      depth: morphPanel.depth ? IMAGE_DEPTH : 0,
+      seed: MORPH_SEED,
+    });
+    morphTo(positions, file.name, colors);
+  } catch {
+    morphPanel.setStatus(`${file.name}: couldn't decode this image`, true);
+  }
+}
+
+function morphToFile(file: File) {
+  if (file.type === 'image/svg+xml' || file.name.endsWith('.svg')) morphToSvg(file);
+  else morphToImage(file);
+}
+
+const morphPanel = new MorphPanel(document.getElementById('morph-panel')!, {
+  onText: (text) => morphTo(sampleText(text, COUNT, morphRandom()), 'text'),
+  onShape: (shape) => morphTo(sampleShape(shape, COUNT, morphRandom()), shape),
+  onFile: morphToFile,
+});
+
+// ─── Audio Reactivity ─────────────────────────────────────
+// How hard each mode reacts lives on the mode; this only picks the input
+const audioInput = new AudioInput(audio);
+const reactToggle = document.getElementById('react-toggle')!;
+
+async function listenTo(kind: AudioSourceKind | null) {
+  try {
+    if (kind === 'mic') {
+      await audioInput.useMicrophone();
+    } else if (kind === 'output') {
+      if (!audio.context) {
+        audio.toggle();
+        updateSoundUI(true);
+      }
+      audioInput.useOutput();
+    } else {
+      audioInput.stop();
+    }
+    reactPanel.setStatus('');
+  } catch {
+    reactPanel.setStatus('microphone unavailable', true);
+  }
+  reactPanel.setSource(audioInput.kind);
+  reactToggle.classList.toggle('live', audioInput.kind !== null);
+}
+
+async function listenToFile(file: File) {
+  reactPanel.setStatus(`${file.name}: decoding…`);
+  try {
+    await audioInput.useFile(file);
+    reactPanel.setStatus(file.name);
+  } catch {
+    reactPanel.setStatus(`${file.name}: couldn't decode this audio`, true);
+  }
+  reactPanel.setSource(audioInput.kind);
+  reactToggle.classList.toggle('live', audioInput.kind !== null);
+}
+
+const reactPanel = new ReactPanel(document.getElementById('react-panel')!, {
+  onSource: listenTo,
+  onFile: listenToFile,
+});
+
+reactToggle.addEventListener('click', () => toggleSidePanel(reactPanel));
+
+/** Bloom added by the bass this frame */
+let bloomLift = 0;
+/** Picks which onsets burst and where — its own stream, so replays match */
+const reactRandom = createRandom(deriveSeed(seed, 0x4ea37));
+
+/** Scales bloom, point size, swirl and bursts by the current frame's features */
+function applyReactivity() {
+  const m = sim.getActiveMode();
+  const f = audioInput.update();
+  reactPanel.showFeatures(f);
+
+  bloomLift = f ? m.reactBloom * f.bass : 0;
+  material.uniforms.uPulse.value = 1 + (f ? m.reactSize * f.level : 0);
+  sim.modulation.swirl = f ? m.reactSwirl * f.mid : 0;
+
+  // Silent bursts — the burst sound would feed straight back into the input
+  if (f?.onset && reactRandom() < m.reactBursts) {
+    sim.burstAt((reactRandom() - 0.5) * 40, (reactRandom() - 0.5) * 40, 0, true);
+  }
+}
+
+/**
+ * Post effects follow the blended mode, so they fade across transitions,
+ * with a show's automation on top and bass lifting the bloom.
+ */
+function applyPost(dt: number) {
+  const m = { ...sim.getActiveMode(), ...sim.modulation.overrides };
+  m.bloom += bloomLift;
+  post.update(m, MODES[sim.currentMode], MODES[sim.targetMode], sim.modeBlend, dt);
+}
+
+// ─── Capture ──────────────────────────────────────────────
+const captureToggle = document.getElementById('capture-toggle')!;
+const recorder = new CanvasRecorder(canvas, audio);
+let recordingTimer = 0;
+
+async function toggleRecording() {
+  if (!recorder.recording) {
+    if (!CanvasRecorder.supported) {
+      capturePanel.setStatus('recording is not supported in this browser', true);
+      return;
+    }
+    ensureAudio();
+    recorder.start();
+    capturePanel.setRecording(true);
+    captureToggle.classList.add('live');
+    recordingTimer = window.setInterval(() => {
+      capturePanel.setStatus(`recording ${Math.floor(recorder.elapsed)}s`);
+    }, 500);
+    return;
+  }
+
+  clearInterval(recordingTimer);
+  capturePanel.setRecording(false);
+  captureToggle.classList.remove('live');
+  try {
+    const video = await recorder.stop();
+    downloadBlob(video, `void-${Date.now()}.webm`);
+    capturePanel.setStatus('');
+  } catch (err) {
+    capturePanel.setStatus(`recording failed: ${(err as Error).message}`, true);
+  }
+}
+
+async function takeSnapshot(width: number, height: number) {
+  capturePanel.setStatus(`rendering ${width}×${height}…`);
+  // Let the status paint before the render blocks the thread
+  await new Promise((resolve) => requestAnimationFrame(resolve));
+  // A single frame has no history to trail — and tiles mustn't bleed into each other
+  post.clearTrails();
+  try {
+    const png = await captureSnapshot({
+      renderer,
+      composer: post.composer,
+      camera,
+      setPixelScale: (scale) => { material.uniforms.uPixelScale.value = pointScale * scale; },
+      setFrame: (x, y, w, h, aspect) => post.setFrame(x, y, w, h, aspect),
+    }, width, height);
+    // Restores the governor's pixel ratio and bloom resolution
+    applyQuality();
+    downloadBlob(png, `void-${width}x${height}.png`);
+    capturePanel.setStatus('');
+  } catch (err) {
+    capturePanel.setStatus(`snapshot failed: ${(err as Error).message}`, true);
+  }
+}
+
+const capturePanel = new CapturePanel(document.getElementById('capture-panel')!, {
+  onRecord: toggleRecording,
+  onSnapshot: takeSnapshot,
+  onQuality: setQualityOverride,
+});
+
+captureToggle.addEventListener('click', () => toggleSidePanel(capturePanel));
+
+// ─── Show ─────────────────────────────────────────────────
+// A choreography timeline that hits cues on its own — mode changes, colors,
+// bursts, camera moves and parameter automation — timed by the audio clock
+// while sound runs. Space plays and pauses; the show is kept in localStorage.
+const showToggle = document.getElementById('show-toggle')!;
+const showClock = new ShowClock(() => {
+  const ctx = audio.context;
+  return ctx instanceof AudioContext && ctx.state === 'running' ? ctx.currentTime : null;
+});
+
+const timeline = new Timeline(loadChoreography(MODES.map((m) => m.name)), {
+  onCue(cue) {
+    switch (cue.type) {
+      case 'mode': {
+        const index = MODES.findIndex((m) => m.name === cue.mode);
+        if (index >= 0) setMode(index);
+        break;
+      }
+      case 'color':
+        setColor(cue.hue);
+        break;
+      case 'burst':
+        burstAt(cue.x, cue.y, 0, cue.push);
+        break;
+    }
+  },
+  onCamera(pose) {
+    stopCameraPath();
+    rig.set(pose);
+  },
+  onAutomation(values) {
+    sim.modulation.overrides = values;
+  },
+  onEnd() {
+    updateShowUI();
+    saveSceneToUrl();
+  },
+});
+
+function updateShowUI() {
+  showPanel.setPlaying(timeline.playing);
+  showToggle.classList.toggle('live', timeline.playing);
+}
+
+function toggleShow() {
+  if (timeline.playing) {
+    timeline.pause();
+  } else {
+    ensureAudio();
+    timeline.play(showClock.now());
+  }
+  updateShowUI();
+}
+
+/** Rewinds and hands the scene back — automation stops overriding the mode */
+function stopShow() {
+  timeline.load(timeline.show);
+  sim.modulation.overrides = {};
+  updateShowUI();
+  saveSceneToUrl();
+}
+
+function loadShow(show: Choreography) {
+  timeline.load(show);
+  sim.modulation.overrides = {};
+  saveChoreography(show);
+  showPanel.setShow(serializeChoreography(show));
+  updateShowUI();
+}
+
+function applyShowJson(json: string, name: string) {
+  toggleSidePanel(showPanel, true);
+  try {
+    const { show, warnings } = parseChoreography(json, MODES.map((m) => m.name));
+    loadShow(show);
+    const summary = `${name}: ${show.cues.length} cues, ${show.camera.length} camera keys, ${show.duration.toFixed(1)}s`;
+    showPanel.setStatus([summary, ...warnings].join('\n'));
+  } catch (err) {
+    const message = err instanceof ChoreographyError ? `rejected:\n${err.issues.join('\n')}` : `couldn't be loaded: ${(err as Error).message}`;
+    showPanel.setStatus(`${name} ${message}`, true);
+  }
+}
+
+/** Loads a show file — nobody awaits this, so a failed read is reported too */
+async function importShow(file: File) {
+  let json: string;
+  try {
+    json = await file.text();
+  } catch (err) {
+    toggleSidePanel(showPanel, true);
+    showPanel.setStatus(`${file.name} couldn't be read: ${(err as Error).message}`, true);
+    return;
+  }
+  applyShowJson(json, file.name);
+}
+
+/** Keys the current mode, color and camera at the playhead, replacing any keyed there before */
+function keyShow() {
+  const time = Math.round(timeline.position * 100) / 100;
+  const { show } = timeline;
+  const cues = show.cues.filter((c) => c.time !== time || c.type === 'burst');
+  cues.push(
+    { time, type: 'mode', mode: MODES[sim.targetMode].name },
+    { time, type: 'color', hue: sim.colorOverride }
+  );
+  const camera = show.camera.filter((k) => k.time !== time);
+  camera.push({ time, pose: { ...rig.pose } });
+  const byTime = (a: { time: number }, b: { time: number }) => a.time - b.time;
+  loadShow({
+    ...show,
+    duration: Math.max(show.duration, time),
+    cues: cues.sort(byTime),
+    camera: camera.sort(byTime),
   });
+  timeline.seek(time);
+  showPanel.setStatus(`keyed at ${time}s`);
+}
+
+const showPanel = new ShowPanel(document.getElementById('show-panel')!, {
+  onPlay: toggleShow,
+  onStop: stopShow,
+  onSeek(seconds) {
+    timeline.seek(seconds);
+  },
+  onApply(json) {
+    applyShowJson(json, 'show');
+  },
+  onKey: keyShow,
+  onImport: importShow,
+  onExport() {
+    const blob = new Blob([serializeChoreography(timeline.show)], { type: 'application/json' });
+    downloadBlob(blob, 'void-show.json');
+  },
+});
+showPanel.setShow(serializeChoreography(timeline.show));
+
+showToggle.addEventListener('click', () => toggleSidePanel(showPanel));
+
+// ─── Palettes ─────────────────────────────────────────────
+// A palette stands in for the particles' own colors, looked up in the
+// shader by speed, distance, depth or age, so the colors buffer is never
+// rewritten. Switching palettes crossfades on the GPU.
+const PALETTE_FADE = 1.2;
+const paletteToggle = document.getElementById('palette-toggle')!;
+const paletteSwatch = document.querySelector<HTMLElement>('.swatch[data-color="palette"]')!;
+const paletteDot = paletteSwatch.querySelector<HTMLElement>('.palette-dot')!;
+let palette: Palette | null = null;
+
+function gradientTexture(): THREE.DataTexture {
+  const texture = new THREE.DataTexture(new Uint8Array(GRADIENT_WIDTH * 4), GRADIENT_WIDTH, 1);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/** Applies a palette, or null to hand coloring back to the particles */
+function applyPalette(next: Palette | null) {
+  const u = material.uniforms;
+  if (next) {
+    if (palette) {
+      // Fade from the palette on screen
+      [paletteTex, palettePrevTex] = [palettePrevTex, paletteTex];
+      u.uSourcePrev.value = u.uSource.value;
+      u.uPaletteFade.value = 0;
+    } else {
+      u.uPaletteFade.value = 1;
+    }
+    paletteTex.image.data!.set(paletteGradient(next.stops));
+    paletteTex.needsUpdate = true;
+    u.uPalette.value = paletteTex;
+    u.uPalettePrev.value = palettePrevTex;
+    u.uSource.value = COLOR_SOURCES.indexOf(next.source);
+    if (sim.colorOverride !== null) {
+      // Turning the palette off again should land on the mode's colors
+      sim.colorOverride = null;
+      sim.refreshColors();
+    }
+  }
+  palette = next;
+  palettePanel.setPalette(next);
+  if (next) updateColorUI();
+  saveSceneToUrl();
+}
+
+/** True while `source` drives a palette on screen, fading ones included */
+function paletteShows(source: ColorSource): boolean {
+  const u = material.uniforms;
+  const i = COLOR_SOURCES.indexOf(source);
+  return u.uPaletteMix.value > 0 && (u.uSource.value === i || (u.uPaletteFade.value < 1 && u.uSourcePrev.value === i));
+}
+
+function updatePalette(dt: number) {
+  const u = material.uniforms;
+  const step = dt / PALETTE_FADE;
+  u.uPaletteMix.value = Math.max(0, Math.min(1, u.uPaletteMix.value + (palette ? step : -step)));
+  u.uPaletteFade.value = Math.min(1, u.uPaletteFade.value + step);
+  u.uCameraDistance.value = rig.pose.distance;
+}
+
+const palettePanel = new PalettePanel(document.getElementById('palette-panel')!, {
+  onChange: applyPalette,
+  onOff() {
+    applyPalette(null);
+    updateColorUI();
+  },
+});
+
+paletteToggle.addEventListener('click', () => toggleSidePanel(palettePanel));
+
+// ─── Side Panels ──────────────────────────────────────────
+// The editor, react, capture, show and palette panels share a corner — opening one closes the others
+interface SidePanel {
+  readonly visible: boolean;
+  toggle(force?: boolean): void;
+}
+
+const sidePanels: [SidePanel, HTMLElement][] = [
+  [modeEditor, editorToggle],
+  [reactPanel, reactToggle],
+  [capturePanel, captureToggle],
+  [showPanel, showToggle],
+  [palettePanel, paletteToggle],
+];
+
+function toggleSidePanel(panel: SidePanel, force?: boolean) {
+  panel.toggle(force);
+  for (const [other, button] of sidePanels) {
+    if (other !== panel && panel.visible) other.toggle(false);
+    button.classList.toggle('active', other.visible);
+  }
+}
+
+// ─── Mode Packs ───────────────────────────────────────────
+function sameMode(a: Mode, b: Mode): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Adds the modes of a pack as custom modes. A custom mode with the same
+ * name is updated in place; presets are never overwritten, so an imported
+ * mode that differs from a preset of the same name gets a new name.
+ */
+async function importModePack(file: File) {
+  toggleSidePanel(modeEditor, true);
+
+  let result: ReturnType<typeof parseModePack>;
+  try {
+    result = parseModePack(await file.text());
+  } catch (err) {
+    // Nobody awaits this, so anything else (e.g. an unreadable file) is reported here too
+    const message = err instanceof ModePackError ? `rejected:\n${err.issues.join('\n')}` : `couldn't be read: ${(err as Error).message}`;
+    modeEditor.setStatus(`${file.name} ${message}`, true);
+    return;
+  }
+
+  const active = MODES[sim.targetMode];
+  let added = 0;
+  let updated = 0;
+  for (const mode of result.modes) {
+    const existing = customModes.find((m) => m.name === mode.name);
+    if (existing) {
+      Object.assign(existing, mode);
+      updated++;
+      continue;
+    }
+    const preset = MODES.slice(0, BUILTIN_COUNT).find((m) => m.name === mode.name);
+    if (preset) {
+      if (sameMode(preset, mode)) continue;
+      mode.name = uniqueModeName(mode.name);
+    }
+    customModes.push(mode);
+    MODES.push(mode);
+    addModeButton(MODES.length - 1);
+    added++;
+  }
+  saveCustomModes(customModes);
+  sim.syncModes();
+
+  // The mode on screen may have been updated — re-target and refresh sliders
+  if (updated > 0 && customModes.includes(active)) {
+    sim.refreshColors();
+    audio.setChord(active.chord);
+    updateModeUI(sim.targetMode);
+  }
+
+  const summary = `${file.name}: ${added} added, ${updated} updated`;
+  modeEditor.setStatus([summary, ...result.warnings].join('\n'));
+}
+
+/** A dropped .json is either a show or a mode pack — nobody awaits this, so a failed read is reported too */
+async function importJson(file: File) {
+  let json: string;
+  try {
+    json = await file.text();
+  } catch (err) {
+    // Unread, it can't be sniffed — packs are the usual drop, so the editor reports it
+    toggleSidePanel(modeEditor, true);
+    modeEditor.setStatus(`${file.name} couldn't be read: ${(err as Error).message}`, true);
+    return;
+  }
+  if (isChoreography(json)) applyShowJson(json, file.name);
+  else importModePack(file);
+}
+
+// Drop a .json pack or show, an SVG or picture to morph into, or audio to react to, anywhere on the page
+window.addEventListener('dragover', (e) => e.preventDefault());
+window.addEventListener('drop', (e) => {
+  e.preventDefault();
+  const file = e.dataTransfer?.files[0];
+  if (file && (file.type === 'application/json' || file.name.endsWith('.json'))) {
+    importJson(file);
+  } else if (file && (file.type.startsWith('image/') || file.name.endsWith('.svg'))) {
+    morphToFile(file);
+  } else if (file?.type.startsWith('audio/')) {
+    listenToFile(file);
+  }
 });
 
 // ─── Color Picker ─────────────────────────────────────────
@@ -343,14 +948,18 @@ const customColorInput = document.getElementById('custom-color') as HTMLInputEle
 
 function triggerColorTransition() {
   // Recompute target colors with the current mode + color override
-  const m = MODES[modeBlend >= 1 ? currentMode : targetMode];
-  precomputeTargets(m);
-  if (modeBlend >= 1) {
-    // Force a blend to happen
-    modeBlend = 0.5;
-    targetMode = currentMode;
-  }
+  sim.refreshColors();
   audio.triggerColorChange();
+  saveSceneToUrl();
+}
+
+/** A hue, or null for the mode's own colors — either drops any palette */
+function setColor(hue: number | null) {
+  const changed = hue !== sim.colorOverride;
+  sim.colorOverride = hue;
+  if (palette) applyPalette(null);
+  updateColorUI();
+  if (changed) triggerColorTransition();
 }
 
 function setActiveColor(el: HTMLElement) {
@@ -361,35 +970,61 @@ function setActiveColor(el: HTMLElement) {
 swatches.forEach((swatch) => {
   swatch.addEventListener('click', () => {
     if (swatch.dataset.color === 'auto') {
-      colorOverride = null;
-      setActiveColor(swatch);
-      triggerColorTransition();
+      setColor(null);
     } else if (swatch.dataset.hue !== undefined) {
-      colorOverride = parseFloat(swatch.dataset.hue);
-      setActiveColor(swatch);
-      triggerColorTransition();
+      setColor(parseFloat(swatch.dataset.hue));
+    } else if (swatch.dataset.color === 'palette') {
+      applyPalette(palettePanel.current);
+      toggleSidePanel(palettePanel, true);
     }
     // label wrapping the custom input handles its own click
   });
 });
 
+function showCustomColor(hex: string) {
+  const dot = customColorInput.parentElement?.querySelector('.custom-dot') as HTMLElement;
+  if (dot) {
+    dot.style.background = hex;
+    dot.textContent = '';
+  }
+  setActiveColor(customColorInput.parentElement as HTMLElement);
+}
+
 customColorInput.addEventListener('input', () => {
   const hex = customColorInput.value;
   tmpColor.set(hex);
   const hsl = { h: 0, s: 0, l: 0 };
   tmpColor.getHSL(hsl);
-  colorOverride = hsl.h;
+  sim.colorOverride = hsl.h;
+  if (palette) applyPalette(null);
 
   // Update the custom dot's appearance
-  const dot = customColorInput.parentElement?.querySelector('.custom-dot') as HTMLElement;
-  if (dot) {
-    dot.style.background = hex;
-    dot.textContent = '';
-  }
-  setActiveColor(customColorInput.parentElement as HTMLElement);
+  showCustomColor(hex);
   triggerColorTransition();
 });
 
+/** Highlights the palette or the swatch matching the current override, or shows it as custom */
+function updateColorUI() {
+  paletteDot.style.background = paletteCss(palettePanel.current.stops);
+  if (palette) {
+    setActiveColor(paletteSwatch);
+    return;
+  }
+  const hue = sim.colorOverride;
+  const match = Array.from(swatches).find((s) =>
+    hue === null
+      ? s.dataset.color === 'auto'
+      : s.dataset.hue !== undefined && Math.abs(parseFloat(s.dataset.hue) - hue) < 0.001
+  );
+  if (match) {
+    setActiveColor(match);
+  } else if (hue !== null) {
+    tmpColor.setHSL(hue, 1, 0.5);
+    customColorInput.value = '#' + tmpColor.getHexString();
+    showCustomColor(customColorInput.value);
+  }
+}
+
 // ─── Sound Toggle ─────────────────────────────────────────
 const soundToggle = document.getElementById('sound-toggle')!;
 const soundOnIcon = document.getElementById('sound-on-icon')!;
@@ -406,6 +1041,7 @@ function updateSoundUI(on: boolean) {
   soundToggle.classList.toggle('active', on);
   soundOnIcon.style.display = on ? 'block' : 'none';
   soundOffIcon.style.display = on ? 'none' : 'block';
+  saveSceneToUrl();
 }
 
 // AudioContext requires user gesture — auto-start on first canvas interaction
@@ -430,235 +1066,553 @@ soundToggle.addEventListener('click', () => {
 });
 
 // ─── Physics ──────────────────────────────────────────────
-function lerp(a: number, b: number, t: number): number {
-  return a + (b - a) * t;
+// Worker frames arrive in alternating buffers, so re-point before uploading
+function syncAttribute(attr: THREE.BufferAttribute, array: Float32Array, upload: boolean) {
+  attr.array = array;
+  if (upload) attr.needsUpdate = true;
 }
 
-function getActiveMode(): Mode {
-  if (modeBlend >= 1) return MODES[currentMode];
-  const a = MODES[currentMode];
-  const b = MODES[targetMode];
-  const t = modeBlend;
-  return {
-    name: b.name,
-    desc: b.desc,
-    hueRange: b.hueRange,
-    satRange: b.satRange,
-    lightRange: b.lightRange,
-    sizeRange: b.sizeRange,
-    damping: lerp(a.damping, b.damping, t),
-    mouseForce: lerp(a.mouseForce, b.mouseForce, t),
-    drift: lerp(a.drift, b.drift, t),
-    centerPull: lerp(a.centerPull, b.centerPull, t),
-    equilibrium: lerp(a.equilibrium, b.equilibrium, t),
-    swirl: lerp(a.swirl, b.swirl, t),
-    bloom: lerp(a.bloom, b.bloom, t),
-    depthRange: lerp(a.depthRange, b.depthRange, t),
-  };
+/** Feeds the blended mode's life curves to the shader */
+function applyLifeCurves() {
+  const m = sim.getActiveMode();
+  material.uniforms.uAlphaCurve.value.fromArray(m.alphaCurve);
+  material.uniforms.uSizeCurve.value.fromArray(m.sizeCurve);
 }
 
+/** Set while the last uploaded frame had mortal particles */
+let lifeUploaded = false;
+
 function updateParticles(dt: number) {
-  const m = getActiveMode();
-
-  bloomPass.strength = m.bloom;
-
-  const mx = mouseWorld.x;
-  const my = mouseWorld.y;
-  const mz = mouseWorld.z;
-  const forceDir = repelling ? -2.0 : 1.0;
-  const mf = mouseDown
-    ? m.mouseForce * forceDir
-    : mouseActive
-      ? m.mouseForce * 0.25
-      : 0;
-  const eq = m.equilibrium;
-
-  for (let i = 0; i < COUNT; i++) {
-    const i3 = i * 3;
-    let px = positions[i3],
-      py = positions[i3 + 1],
-      pz = positions[i3 + 2];
-    let vx = velocities[i3],
-      vy = velocities[i3 + 1],
-      vz = velocities[i3 + 2];
-
-    // Center pull with equilibrium — attracts when far, repels when close
-    const centerDist = Math.sqrt(px * px + py * py + pz * pz) + 0.1;
-    const pullForce = m.centerPull * (centerDist - eq);
-    vx -= (px / centerDist) * pullForce;
-    vy -= (py / centerDist) * pullForce;
-    vz -= (pz / centerDist) * pullForce * 0.3;
-
-    // Mouse gravity
-    if (mf !== 0) {
-      const dx = mx - px;
-      const dy = my - py;
-      const dz = mz - pz;
-      const distSq = dx * dx + dy * dy + dz * dz + 4;
-      const f = (mf * dt) / distSq;
-      vx += dx * f;
-      vy += dy * f;
-      vz += dz * f * 0.2;
-    }
+  applyReactivity();
+  applyLifeCurves();
+
+  const sourceCount = sim.sources.length;
+  const update = sim.step(dt);
+  if (sim.sources.length !== sourceCount) {
+    // A timed source expired
+    updateHoveredSource();
+    saveSceneToUrl();
+  }
 
-    // Swirl
-    if (m.swirl > 0) {
-      const dist = Math.sqrt(px * px + pz * pz) + 0.5;
-      vx += (-pz / dist) * m.swirl;
-      vz += (px / dist) * m.swirl;
-    }
+  audio.setMotion(sim.kineticEnergy);
+
+  if (!update) return;
+  syncAttribute(posAttr, sim.positions, true);
+  syncAttribute(colAttr, sim.colors, update.appearanceChanged);
+  syncAttribute(sizeAttr, sim.sizes, update.appearanceChanged);
+  syncAttribute(alphaAttr, sim.alphas, update.alphasChanged);
+  // Only a palette reads speeds, so they upload only while one does
+  syncAttribute(speedAttr, sim.speeds, paletteShows('speed'));
+  // Ages and lifespans change every frame while particles are mortal, plus
+  // one more upload once the last one is reborn immortal
+  const lifecycle = update.mortal || lifeUploaded;
+  lifeUploaded = update.mortal;
+  syncAttribute(ageAttr, sim.ages, lifecycle || paletteShows('age'));
+  syncAttribute(lifeAttr, sim.lifespans, lifecycle);
+  points.visible = sim.ready;
+}
 
-    // Random drift
-    vx += (Math.random() - 0.5) * m.drift;
-    vy += (Math.random() - 0.5) * m.drift;
-    vz += (Math.random() - 0.5) * m.drift * 0.3;
-
-    // Damping
-    vx *= m.damping;
-    vy *= m.damping;
-    vz *= m.damping;
-
-    // Integrate
-    px += vx * dt * 60;
-    py += vy * dt * 60;
-    pz += vz * dt * 60;
-
-    // Soft boundary
-    if (px > BOUNDS) { px = BOUNDS; vx *= -0.3; }
-    if (px < -BOUNDS) { px = -BOUNDS; vx *= -0.3; }
-    if (py > BOUNDS) { py = BOUNDS; vy *= -0.3; }
-    if (py < -BOUNDS) { py = -BOUNDS; vy *= -0.3; }
-    if (pz > m.depthRange) { pz = m.depthRange; vz *= -0.3; }
-    if (pz < -m.depthRange) { pz = -m.depthRange; vz *= -0.3; }
-
-    positions[i3] = px;
-    positions[i3 + 1] = py;
-    positions[i3 + 2] = pz;
-    velocities[i3] = vx;
-    velocities[i3 + 1] = vy;
-    velocities[i3 + 2] = vz;
-  }
-
-  // Smooth color/size transition
-  if (modeBlend < 1) {
-    modeBlend = Math.min(modeBlend + dt * 0.5, 1);
-    if (modeBlend >= 1) {
-      currentMode = targetMode;
-    }
+// ─── Click Burst ──────────────────────────────────────────
+/** A burst this share of the field (or more) plays at full weight */
+const FULL_BURST_SHARE = 0.2;
+const tmpPlacement = new THREE.Vector3();
+
+/** Where a world point sits in the stereo field, and how far away it sounds */
+function placementOf(wx: number, wy: number, wz: number): SoundPlacement {
+  tmpPlacement.set(wx, wy, wz);
+  const distance = tmpPlacement.distanceTo(camera.position);
+  tmpPlacement.project(camera);
+  return { pan: tmpPlacement.x, distance };
+}
 
-    const rate = dt * 2.5;
-    for (let i = 0; i < COUNT * 3; i++) {
-      colors[i] += (targetColors[i] - colors[i]) * rate;
-    }
-    for (let i = 0; i < COUNT; i++) {
-      sizes[i] += (targetSizes[i] - sizes[i]) * rate;
-    }
+function burstAt(wx: number, wy: number, wz: number, push: boolean) {
+  const at = placementOf(wx, wy, wz);
+  sim.burstAt(wx, wy, wz, push).then((hits) => {
+    audio.triggerBurst(at, hits / (sim.activeCount * FULL_BURST_SHARE));
+  });
+}
+
+// ─── Field Sources ────────────────────────────────────────
+// Alt+click places an attractor (+shift: repulsor, +ctrl/cmd: vortex) or
+// removes the source under the cursor. Sources drag with any pointer; while
+// hovering one, scroll sets its radius (+shift: strength), F cycles the
+// falloff, T cycles the lifetime and Delete removes it.
+const FALLOFF_STEPS = [0.5, 1, 2];
+const LIFETIME_STEPS = [10, 30];
+/** Pick distance around a source's center, in world units */
+const SOURCE_PICK = 1.5;
+
+let hoveredSource: FieldSource | null = null;
+let draggedSource: FieldSource | null = null;
+
+function sourceKindFor(e: MouseEvent): SourceKind {
+  if (e.ctrlKey || e.metaKey) return 'vortex';
+  return e.shiftKey ? 'repulsor' : 'attractor';
+}
+
+function placeSource(kind: SourceKind, at: THREE.Vector3) {
+  if (sim.sources.length >= MAX_SOURCES) return;
+  const source = createSource(kind, at.x, at.y, at.z);
+  sim.sources.push(source);
+  hoveredSource = source;
+  saveSceneToUrl();
+}
+
+function removeSource(source: FieldSource) {
+  const i = sim.sources.indexOf(source);
+  if (i >= 0) sim.sources.splice(i, 1);
+  if (hoveredSource === source) hoveredSource = null;
+  if (draggedSource === source) draggedSource = null;
+  saveSceneToUrl();
+}
+
+function updateHoveredSource() {
+  if (draggedSource && !sim.sources.includes(draggedSource)) draggedSource = null;
+  hoveredSource = draggedSource ?? (mouseOver ? sourceOnRay(mouseRay) : null);
+  canvas.style.cursor = draggedSource ? 'grabbing' : hoveredSource ? 'grab' : '';
+}
+
+function cycleFalloff(source: FieldSource) {
+  source.falloff = FALLOFF_STEPS.find((f) => f > source.falloff + 1e-6) ?? FALLOFF_STEPS[0];
+}
 
-    colAttr.needsUpdate = true;
-    sizeAttr.needsUpdate = true;
+function cycleLifetime(source: FieldSource) {
+  // Permanent → 10 s → 30 s → permanent
+  const life = source.lifetime;
+  source.lifetime = life === null ? LIFETIME_STEPS[0] : LIFETIME_STEPS.find((l) => l > life + 1e-6) ?? null;
+}
+
+/** Keys acting on the hovered source. Returns false if `key` isn't one. */
+function handleSourceKey(key: string, source: FieldSource): boolean {
+  switch (key.toLowerCase()) {
+    case 'delete':
+    case 'backspace':
+      removeSource(source);
+      updateHoveredSource();
+      return true;
+    case 'f':
+      cycleFalloff(source);
+      break;
+    case 't':
+      cycleLifetime(source);
+      break;
+    default:
+      return false;
   }
+  saveSceneToUrl();
+  return true;
+}
 
-  posAttr.needsUpdate = true;
+// ─── Pointer Input ────────────────────────────────────────
+// Every mouse, finger and pen is its own pointer in the simulation, so
+// several hands can pull at once. The mouse also hovers, which is what
+// picks sources. Touch adds pinch zoom, a two-finger tap that pushes, and
+// long-press: on empty space it places an attractor, on a source it cycles
+// attractor → repulsor → vortex → removed. In camera mode (O), or with the
+// middle button, dragging orbits instead (+shift or right button: pans).
+interface PointerState {
+  type: string;
+  sim: Pointer;
+  /** Where the pointer meets the interaction plane */
+  world: THREE.Vector3;
+  ray: THREE.Ray;
+  /** Client position at the last move, for camera drags */
+  lastX: number;
+  lastY: number;
+  /** Source this pointer is dragging, along a plane through it facing the camera */
+  dragging: FieldSource | null;
+  dragPlane: THREE.Plane;
+  /** Camera drag in progress */
+  steering: 'orbit' | 'pan' | null;
 }
 
-// ─── Click Burst ──────────────────────────────────────────
-function burstAt(wx: number, wy: number, push: boolean) {
-  const force = push ? -3 : 3;
-  const radius = 12;
-  const radiusSq = radius * radius;
-
-  for (let i = 0; i < COUNT; i++) {
-    const i3 = i * 3;
-    const dx = positions[i3] - wx;
-    const dy = positions[i3 + 1] - wy;
-    const distSq = dx * dx + dy * dy;
-
-    if (distSq < radiusSq) {
-      const strength = (1 - distSq / radiusSq) * force;
-      const dist = Math.sqrt(distSq) + 0.5;
-      velocities[i3] += (dx / dist) * strength;
-      velocities[i3 + 1] += (dy / dist) * strength;
-      velocities[i3 + 2] += (Math.random() - 0.5) * Math.abs(strength) * 0.3;
+/** Radians of orbit per pixel dragged */
+const ORBIT_SPEED = 0.005;
+
+const pointerStates = new Map<number, PointerState>();
+const mouseRay = new THREE.Ray();
+const tmpSource = new THREE.Vector3();
+const tmpFrom = new THREE.Vector3();
+let mouseOver = false;
+let cameraMode = false;
+
+function toWorld(clientX: number, clientY: number, out: THREE.Vector3, ray?: THREE.Ray) {
+  pointerNDC.set((clientX / window.innerWidth) * 2 - 1, -(clientY / window.innerHeight) * 2 + 1);
+  raycaster.setFromCamera(pointerNDC, camera);
+  raycaster.ray.intersectPlane(interactionPlane, out);
+  ray?.copy(raycaster.ray);
+}
+
+/** The source closest to `ray` within pick distance, or null */
+function sourceOnRay(ray: THREE.Ray): FieldSource | null {
+  let best: FieldSource | null = null;
+  let bestD2 = SOURCE_PICK * SOURCE_PICK;
+  for (const s of sim.sources) {
+    const d2 = ray.distanceSqToPoint(tmpSource.set(s.x, s.y, s.z));
+    if (d2 < bestD2) {
+      bestD2 = d2;
+      best = s;
     }
   }
+  return best;
+}
 
-  audio.triggerBurst();
+/** The pointer's state, created on first sight, moved to its current position */
+function trackPointer(p: TrackedPointer): PointerState {
+  let state = pointerStates.get(p.id);
+  if (!state) {
+    state = {
+      type: p.type,
+      sim: { x: 0, y: 0, z: 0, active: true, down: false, repelling: false },
+      world: new THREE.Vector3(),
+      ray: new THREE.Ray(),
+      lastX: p.x,
+      lastY: p.y,
+      dragging: null,
+      dragPlane: new THREE.Plane(),
+      steering: null,
+    };
+    pointerStates.set(p.id, state);
+    sim.pointers.push(state.sim);
+  }
+  toWorld(p.x, p.y, state.world, state.ray);
+  state.sim.x = state.world.x;
+  state.sim.y = state.world.y;
+  state.sim.z = state.world.z;
+  if (p.type === 'mouse') {
+    mouseOver = true;
+    mouseRay.copy(state.ray);
+  }
+  return state;
 }
 
-// ─── Mouse Helpers ────────────────────────────────────────
-function updateMouseWorld() {
-  raycaster.setFromCamera(mouseNDC, camera);
-  raycaster.ray.intersectPlane(interactionPlane, mouseWorld);
+function releasePointer(state: PointerState) {
+  state.sim.down = false;
+  state.sim.repelling = false;
+  if (state.steering) {
+    state.steering = null;
+    saveSceneToUrl();
+  }
+  if (state.dragging) {
+    if (draggedSource === state.dragging) draggedSource = null;
+    state.dragging = null;
+    updateHoveredSource();
+    saveSceneToUrl();
+  }
 }
 
-// ─── Event Listeners ──────────────────────────────────────
-canvas.addEventListener('mousemove', (e) => {
-  mouseNDC.x = (e.clientX / window.innerWidth) * 2 - 1;
-  mouseNDC.y = -(e.clientY / window.innerHeight) * 2 + 1;
-  mouseActive = true;
-  updateMouseWorld();
-});
+/** Drags the camera by a pointer's movement since its last event */
+function steer(state: PointerState, p: TrackedPointer) {
+  const dx = p.x - state.lastX;
+  const dy = p.y - state.lastY;
+  stopCameraPath();
+  if (state.steering === 'orbit') {
+    rig.orbit(-dx * ORBIT_SPEED, dy * ORBIT_SPEED);
+  } else {
+    // World units per pixel at the target's depth
+    const scale = (2 * rig.pose.distance * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2))) / window.innerHeight;
+    rig.pan(-dx * scale, dy * scale);
+  }
+}
 
-canvas.addEventListener('mouseenter', () => { mouseActive = true; });
-canvas.addEventListener('mouseleave', () => { mouseActive = false; });
+function zoomTo(distance: number) {
+  stopCameraPath();
+  rig.zoomTo(distance);
+  saveSceneToUrl();
+}
 
-canvas.addEventListener('mousedown', (e) => {
-  ensureAudio();
-  mouseDown = true;
-  if (e.button === 2 || e.shiftKey) repelling = true;
-  if (mouseActive) burstAt(mouseWorld.x, mouseWorld.y, repelling);
-});
-canvas.addEventListener('mouseup', () => {
-  mouseDown = false;
-  repelling = false;
+function setCameraMode(on: boolean) {
+  cameraMode = on;
+  canvas.classList.toggle('steering', on);
+  flashLabel(on ? 'camera' : 'particles');
+}
+
+/** Long-press tool: place an attractor, or step the source under the finger to its next kind */
+function cycleSourceAt(state: PointerState) {
+  const source = sourceOnRay(state.ray);
+  if (!source) {
+    placeSource('attractor', state.world);
+    return;
+  }
+  const next = SOURCE_KINDS[SOURCE_KINDS.indexOf(source.kind) + 1];
+  if (next) {
+    source.kind = next;
+    saveSceneToUrl();
+  } else {
+    removeSource(source);
+  }
+}
+
+const gestures = new PointerGestures(canvas, {
+  onDown(p, e) {
+    ensureAudio();
+    const state = trackPointer(p);
+    state.lastX = p.x;
+    state.lastY = p.y;
+    if (cameraMode || p.button === 1) {
+      state.steering = p.button === 2 || e.shiftKey ? 'pan' : 'orbit';
+      return;
+    }
+    const under = sourceOnRay(state.ray);
+    if (e.altKey) {
+      if (under) removeSource(under);
+      else placeSource(sourceKindFor(e), state.world);
+      updateHoveredSource();
+      return;
+    }
+    if (under && p.button === 0) {
+      state.dragging = under;
+      state.dragPlane.copy(interactionPlane);
+      state.dragPlane.constant = -state.dragPlane.normal.dot(tmpSource.set(under.x, under.y, under.z));
+      draggedSource = under;
+      updateHoveredSource();
+      return;
+    }
+    state.sim.down = true;
+    state.sim.repelling = p.button === 2 || e.shiftKey;
+    burstAt(state.world.x, state.world.y, state.world.z, state.sim.repelling);
+  },
+  onMove(p) {
+    const state = pointerStates.get(p.id);
+    const from = tmpFrom.copy(state?.world ?? tmpFrom);
+    const moved = trackPointer(p);
+    // Pinching fingers zoom rather than each orbiting on its own
+    if (moved.steering && (p.type !== 'touch' || gestures.pressedCount === 1)) steer(moved, p);
+    moved.lastX = p.x;
+    moved.lastY = p.y;
+    // Fast sweeps liven up the melody
+    if (state && !moved.steering) audio.stir(Math.min(moved.world.distanceTo(from), 12) * 0.0025);
+    const dragged = moved.dragging;
+    if (dragged && moved.ray.intersectPlane(moved.dragPlane, tmpSource)) {
+      dragged.x = tmpSource.x;
+      dragged.y = tmpSource.y;
+      dragged.z = tmpSource.z;
+    }
+    if (p.type === 'mouse' || dragged) updateHoveredSource();
+  },
+  onUp(p) {
+    const state = pointerStates.get(p.id);
+    if (state) releasePointer(state);
+  },
+  onLeave(p) {
+    const state = pointerStates.get(p.id);
+    if (!state) return;
+    releasePointer(state);
+    pointerStates.delete(p.id);
+    const i = sim.pointers.indexOf(state.sim);
+    if (i >= 0) sim.pointers.splice(i, 1);
+    if (p.type === 'mouse') {
+      mouseOver = false;
+      updateHoveredSource();
+    }
+  },
+  onPinch(scale) {
+    zoomTo(rig.pose.distance / scale);
+  },
+  onTwoFingerTap(x, y) {
+    const at = new THREE.Vector3();
+    toWorld(x, y, at);
+    burstAt(at.x, at.y, at.z, true);
+  },
+  onLongPress(p) {
+    // A held mouse button is just a long pull; alt+click covers the mouse
+    const state = pointerStates.get(p.id);
+    if (!state || p.type === 'mouse' || state.steering) return;
+    releasePointer(state);
+    cycleSourceAt(state);
+    updateHoveredSource();
+  },
 });
+
 canvas.addEventListener('contextmenu', (e) => e.preventDefault());
 
-// Touch
-canvas.addEventListener('touchstart', (e) => {
-  ensureAudio();
-  e.preventDefault();
-  mouseDown = true;
-  mouseActive = true;
-  const t = e.touches[0];
-  mouseNDC.x = (t.clientX / window.innerWidth) * 2 - 1;
-  mouseNDC.y = -(t.clientY / window.innerHeight) * 2 + 1;
-  updateMouseWorld();
-  burstAt(mouseWorld.x, mouseWorld.y, false);
-}, { passive: false });
+function setMouseRepelling(on: boolean) {
+  for (const state of pointerStates.values()) {
+    if (state.type === 'mouse' && state.sim.down) state.sim.repelling = on;
+  }
+}
 
-canvas.addEventListener('touchmove', (e) => {
-  e.preventDefault();
-  const t = e.touches[0];
-  mouseNDC.x = (t.clientX / window.innerWidth) * 2 - 1;
-  mouseNDC.y = -(t.clientY / window.innerHeight) * 2 + 1;
-  updateMouseWorld();
-}, { passive: false });
+// ─── Camera Paths ─────────────────────────────────────────
+// K records the camera as it moves, K again stops; P plays the take back
+// along a spline. Any camera input during playback hands control back.
+const cameraPath = new CameraPath();
+let pathRecording = false;
+/** Seconds into the current recording or playback */
+let pathClock = 0;
+let pathPlaying = false;
+
+function toggleCameraRecording() {
+  stopCameraPath();
+  pathRecording = !pathRecording;
+  if (pathRecording) {
+    cameraPath.clear();
+    pathClock = 0;
+    cameraPath.record(0, rig.pose);
+  } else {
+    cameraPath.record(pathClock, rig.pose, 0);
+  }
+  flashLabel(pathRecording ? 'recording camera' : `camera path · ${cameraPath.duration.toFixed(1)}s`);
+}
 
-canvas.addEventListener('touchend', () => {
-  mouseDown = false;
-  mouseActive = false;
+function playCameraPath() {
+  if (pathRecording) toggleCameraRecording();
+  if (cameraPath.keyframes.length < 2) {
+    flashLabel('no camera path');
+    return;
+  }
+  pathPlaying = true;
+  pathClock = 0;
+}
+
+function stopCameraPath() {
+  pathPlaying = false;
+}
+
+function updateCamera(dt: number) {
+  if (pathRecording) {
+    pathClock += dt;
+    cameraPath.record(pathClock, rig.pose);
+  } else if (pathPlaying) {
+    pathClock += dt;
+    rig.set(cameraPath.sample(pathClock));
+    if (pathClock >= cameraPath.duration) {
+      pathPlaying = false;
+      saveSceneToUrl();
+    }
+  }
+
+  // The idle drift stays out of recordings and playback
+  const drift = pathPlaying || (timeline.playing && timeline.hasCamera) ? 0 : 1;
+  cameraAngle += dt * 0.04;
+  rig.apply(camera, Math.sin(cameraAngle) * 3 * drift, Math.cos(cameraAngle * 0.7) * 2 * drift);
+  rig.updatePlane(interactionPlane);
+}
+
+// ─── Kiosk ────────────────────────────────────────────────
+// For displays nobody touches: `?kiosk` (or I) hides the interface and hands
+// the field to the autopilot, which cycles modes and the swatch palettes
+// and steers a ghost cursor. Any real input takes over at once.
+const kioskOptions = parseKioskOptions(location.search);
+const ghostEl = document.getElementById('ghost-cursor')!;
+const tmpGhost = new THREE.Vector3();
+/** Auto, then every preset swatch */
+const kioskPalettes: (number | null)[] = [
+  null,
+  ...Array.from(swatches).flatMap((s) => (s.dataset.hue === undefined ? [] : [parseFloat(s.dataset.hue)])),
+];
+let kiosk = false;
+
+const autopilot = new Autopilot(kioskOptions ?? DEFAULT_KIOSK, createRandom(deriveSeed(seed, 0x6b105c)), {
+  onMode() {
+    setMode((sim.targetMode + 1) % MODES.length);
+  },
+  onPalette() {
+    const i = kioskPalettes.indexOf(sim.colorOverride);
+    setColor(kioskPalettes[(i + 1) % kioskPalettes.length]);
+  },
+  onBurst: burstAt,
 });
 
+/** Hides the hint at once rather than fading it — no instructions on a kiosk */
+function hideHint() {
+  const hint = document.getElementById('hint')!;
+  hint.style.transition = 'none';
+  hint.style.opacity = '0';
+}
+
+function setKiosk(on: boolean) {
+  kiosk = on;
+  document.body.classList.toggle('kiosk', on);
+  const i = sim.pointers.indexOf(autopilot.pointer);
+  if (on) {
+    hideHint();
+    autopilot.start();
+    if (i < 0) sim.pointers.push(autopilot.pointer);
+  } else {
+    autopilot.stop();
+    if (i >= 0) sim.pointers.splice(i, 1);
+  }
+  updateGhost();
+}
+
+function updateGhost() {
+  const engaged = kiosk && autopilot.engaged;
+  ghostEl.classList.toggle('visible', engaged);
+  document.body.classList.toggle('autopilot', engaged);
+  if (!engaged) return;
+  const p = autopilot.pointer;
+  tmpGhost.set(p.x, p.y, p.z).project(camera);
+  const x = ((tmpGhost.x + 1) / 2) * window.innerWidth;
+  const y = ((1 - tmpGhost.y) / 2) * window.innerHeight;
+  ghostEl.style.transform = `translate(${x}px, ${y}px) scale(${p.down ? 1.6 : 1})`;
+  ghostEl.classList.toggle('repelling', p.repelling);
+}
+
+// Real input, wherever it lands, pauses the autopilot
+for (const type of ['pointerdown', 'pointermove', 'wheel', 'keydown']) {
+  window.addEventListener(type, () => {
+    if (kiosk) autopilot.noteInput();
+  }, { capture: true, passive: true });
+}
+
+// ─── Event Listeners ──────────────────────────────────────
+function isFormField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
 // Keyboard
 window.addEventListener('keydown', (e) => {
-  if (e.key === 'Shift') repelling = true;
-  const n = parseInt(e.key);
-  if (n >= 1 && n <= MODES.length) setMode(n - 1);
+  if (e.key === 'Shift') setMouseRepelling(true);
+  // Don't steal keystrokes from form fields — text, numbers and pickers alike
+  if (isFormField(e.target)) return;
+  if (e.key === ' ' && timeline.duration > 0) {
+    e.preventDefault();
+    toggleShow();
+  }
+  if (e.key === 'e' || e.key === 'E') toggleEditor();
+  if (e.key === 'm' || e.key === 'M') {
+    ensureAudio();
+    audio.setMelody(!audio.melody);
+  }
+  if (hoveredSource && handleSourceKey(e.key, hoveredSource)) return;
+  if (e.key === 'o' || e.key === 'O') setCameraMode(!cameraMode);
+  if (e.key === 'i' || e.key === 'I') setKiosk(!kiosk);
+  if (e.key === 'k' || e.key === 'K') toggleCameraRecording();
+  if (e.key === 'p' || e.key === 'P') {
+    if (pathPlaying) stopCameraPath();
+    else playCameraPath();
+  }
+  const index = modeForKey(e);
+  if (index !== null && index < MODES.length) setMode(index);
 });
 window.addEventListener('keyup', (e) => {
-  if (e.key === 'Shift') repelling = false;
+  if (e.key === 'Shift') setMouseRepelling(false);
 });
 
 // Scroll zoom
 canvas.addEventListener('wheel', (e) => {
   e.preventDefault();
-  camera.position.z = Math.max(20, Math.min(120, camera.position.z + e.deltaY * 0.05));
+  if (hoveredSource) {
+    const s = hoveredSource;
+    const scale = Math.exp(-e.deltaY * 0.002);
+    if (e.shiftKey) s.strength = clampSourceValue('strength', s.strength * scale);
+    else s.radius = clampSourceValue('radius', s.radius * scale);
+    saveSceneToUrl();
+    return;
+  }
+  zoomTo(rig.pose.distance + e.deltaY * 0.05);
 }, { passive: false });
 
-// Double-click reset
+// Double-click returns to the default framing
 canvas.addEventListener('dblclick', () => {
-  camera.position.z = CAMERA_Z;
+  stopCameraPath();
+  rig.set(defaultPose(CAMERA_Z));
+  saveSceneToUrl();
 });
 
 // Resize
@@ -667,10 +1621,92 @@ window.addEventListener('resize', () => {
   const h = window.innerHeight;
   camera.aspect = w / h;
   camera.updateProjectionMatrix();
-  renderer.setSize(w, h);
-  composer.setSize(w, h);
+  applyQuality();
 });
 
+// ─── Shareable URL ────────────────────────────────────────
+function currentScene(): SceneState {
+  return {
+    mode: sim.targetMode,
+    colorOverride: sim.colorOverride,
+    palette,
+    camera: rig.pose,
+    sound: soundDesired,
+    seed,
+    sources: sim.sources,
+  };
+}
+
+// Debounced — wheel zoom fires many events per gesture
+let urlTimer = 0;
+function saveSceneToUrl() {
+  clearTimeout(urlTimer);
+  urlTimer = window.setTimeout(() => {
+    history.replaceState(null, '', '#' + encodeSceneState(currentScene(), MODES));
+  }, 250);
+}
+
+// A pasted link in the same tab transitions to the new scene
+window.addEventListener('hashchange', () => {
+  const next = decodeSceneState(location.hash, MODES, currentScene());
+  if (next.palette) {
+    if (JSON.stringify(next.palette) !== JSON.stringify(palette)) applyPalette(next.palette);
+  } else if (palette || next.colorOverride !== sim.colorOverride) {
+    setColor(next.colorOverride);
+  }
+  setMode(next.mode);
+  stopCameraPath();
+  rig.set(next.camera);
+  sim.sources.splice(0, sim.sources.length, ...next.sources);
+  updateHoveredSource();
+  if (next.sound !== soundDesired && !audio.enabled) updateSoundUI(next.sound);
+});
+
+// ─── Adaptive Quality ─────────────────────────────────────
+/** Point-size multiplier matching the pixel ratio in use */
+let pointScale = 1;
+/** Drawn particles — eases towards the governor's count, fading at the edge */
+let visibleCount = sim.activeCount;
+
+function targetCount(): number {
+  return Math.round(COUNT * QUALITY_LEVELS[governor.level].particles);
+}
+
+/** Applies the current level's pixel ratio and bloom resolution to the canvas size */
+function applyQuality() {
+  const q = QUALITY_LEVELS[governor.level];
+  const w = window.innerWidth;
+  const h = window.innerHeight;
+  const ratio = Math.min(window.devicePixelRatio, q.pixelRatio);
+  renderer.setPixelRatio(ratio);
+  renderer.setSize(w, h);
+  post.setSize(w, h, ratio, q.bloom);
+  pointScale = ratio / REFERENCE_PIXEL_RATIO;
+  material.uniforms.uPixelScale.value = pointScale;
+  capturePanel.setQuality(governor.override, governor.level, targetCount());
+}
+
+function setQualityOverride(level: number | null) {
+  governor.setOverride(level);
+  applyQuality();
+}
+
+/**
+ * Feeds the governor and moves the drawn count towards its target. The
+ * simulation keeps every particle that is still (partly) visible active.
+ */
+function updateQuality(frameMs: number, dt: number) {
+  if (governor.sample(frameMs)) applyQuality();
+
+  const target = targetCount();
+  const step = COUNT_RATE * dt;
+  visibleCount += Math.max(-step, Math.min(step, target - visibleCount));
+  const drawn = Math.min(COUNT, Math.ceil(visibleCount + COUNT_FADE));
+  sim.activeCount = Math.max(target, drawn);
+  geometry.setDrawRange(0, drawn);
+  material.uniforms.uVisible.value = visibleCount + COUNT_FADE;
+}
+
 // ─── Animation Loop ──────────────────────────────────────
 let cameraAngle = 0;
 let lastTime = performance.now();
@@ -679,23 +1715,39 @@ function animate() {
   requestAnimationFrame(animate);
 
   const now = performance.now();
-  const dt = Math.min((now - lastTime) / 1000, 0.05);
+  const frameMs = now - lastTime;
+  const dt = Math.min(frameMs / 1000, 0.05);
   lastTime = now;
+  updateQuality(frameMs, dt);
 
   material.uniforms.uTime.value = now / 1000;
 
-  cameraAngle += dt * 0.04;
-  camera.position.x = Math.sin(cameraAngle) * 3;
-  camera.position.y = Math.cos(cameraAngle * 0.7) * 2;
-  camera.lookAt(0, 0, 0);
+  if (kiosk) {
+    autopilot.update(dt);
+    updateGhost();
+  }
+  timeline.update(showClock.now());
+  updatePalette(dt);
+  showPanel.setPosition(timeline.position, timeline.duration);
+  updateCamera(dt);
 
   updateParticles(dt);
-  composer.render();
+  sourceMarkers.update(sim.sources, hoveredSource, now / 1000);
+  applyPost(dt);
+  post.render();
 }
 
 // ─── Kick Off ─────────────────────────────────────────────
+applyQuality();
+updateModeUI(initialScene.mode);
+if (initialScene.palette) applyPalette(initialScene.palette);
+updateColorUI();
+audio.setMode(MODES[initialScene.mode]);
+if (!initialScene.sound) updateSoundUI(false);
+
 setTimeout(() => {
   document.getElementById('hint')!.style.opacity = '0';
 }, 6000);
+if (kioskOptions) setKiosk(true);
 
 animate();
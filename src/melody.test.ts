@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { chooseNote, degreeToSemitones, type Note } from './melody.ts';
+
+const DORIAN = [0, 2, 3, 5, 7, 9, 10];
+const PENTATONIC = [0, 2, 4, 7, 9];
+
+/** A phrase the way the scheduler walks it: each note starts from the last */
+function phrase(seed: number, scale: readonly number[], steps = 256, density = 0.6): (Note | null)[] {
+  const notes: (Note | null)[] = [];
+  let previous = 0;
+  for (let step = 0; step < steps; step++) {
+    const note = chooseNote({ seed, step, previous, scale, density });
+    if (note) previous = note.degree;
+    notes.push(note);
+  }
+  return notes;
+}
+
+describe('degreeToSemitones', () => {
+  it('wraps degrees across octaves in both directions', () => {
+    expect(degreeToSemitones(0, DORIAN)).toBe(0);
+    expect(degreeToSemitones(2, DORIAN)).toBe(3);
+    expect(degreeToSemitones(7, DORIAN)).toBe(12);
+    expect(degreeToSemitones(-1, DORIAN)).toBe(-2);
+    expect(degreeToSemitones(-7, DORIAN)).toBe(-12);
+  });
+});
+
+describe('chooseNote', () => {
+  it('gives the same notes for the same seed and scale', () => {
+    expect(phrase(42, DORIAN)).toEqual(phrase(42, DORIAN));
+    expect(phrase(42, DORIAN)).not.toEqual(phrase(43, DORIAN));
+  });
+
+  it('only plays notes in the scale', () => {
+    for (const scale of [DORIAN, PENTATONIC]) {
+      const notes = phrase(7, scale).filter((n): n is Note => n !== null);
+      expect(notes.length).toBeGreaterThan(0);
+      for (const note of notes) {
+        expect(scale).toContain(((note.semitones % 12) + 12) % 12);
+        expect(note.semitones).toBe(degreeToSemitones(note.degree, scale));
+        expect(note.velocity).toBeGreaterThan(0);
+        expect(note.velocity).toBeLessThanOrEqual(1);
+        expect(note.steps).toBeGreaterThanOrEqual(1);
+      }
+    }
+  });
+
+  it('rests more in sparse lines', () => {
+    const sounding = (density: number) => phrase(3, DORIAN, 512, density).filter(Boolean).length;
+    expect(sounding(0.1)).toBeLessThan(sounding(0.9));
+  });
+
+  it('rests on an empty scale', () => {
+    expect(chooseNote({ seed: 1, step: 0, previous: 0, scale: [], density: 1 })).toBeNull();
+  });
+});
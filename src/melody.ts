@@ -0,0 +1,88 @@
+// ─── Melody ───────────────────────────────────────────────
+// Note choice for the generative melodic voice. Pure: the same seed, step
+// and context always give the same note, so a phrase can be replayed (or
+// tested) without any audio running.
+
+import { createRandom, deriveSeed } from './random.ts';
+
+export interface Note {
+  /** Scale degree relative to the root — may be negative or span octaves */
+  degree: number;
+  /** Semitones above the root */
+  semitones: number;
+  /** 0–1 */
+  velocity: number;
+  /** Length in scheduler steps */
+  steps: number;
+}
+
+export interface NoteContext {
+  seed: number;
+  /** Scheduler step counter — each step draws from its own stream */
+  step: number;
+  /** Degree of the last note played */
+  previous: number;
+  /** Semitone offsets from the root, ascending within one octave */
+  scale: readonly number[];
+  /** 0–1 — how busy the line is; rests fill the rest */
+  density: number;
+}
+
+/** Steps per bar — downbeats are likelier to sound and accented */
+export const STEPS_PER_BAR = 8;
+
+// Mostly stepwise motion with the odd leap, as (interval, weight)
+const INTERVALS: [number, number][] = [
+  [-4, 0.4], [-2, 1], [-1, 3], [0, 0.8], [1, 3], [2, 1], [4, 0.4],
+];
+
+/** Semitones above the root for a (possibly negative or multi-octave) degree */
+export function degreeToSemitones(degree: number, scale: readonly number[]): number {
+  const len = scale.length;
+  const octave = Math.floor(degree / len);
+  return octave * 12 + scale[degree - octave * len];
+}
+
+/** The note to start at `step`, or null for a rest */
+export function chooseNote({ seed, step, previous, scale, density }: NoteContext): Note | null {
+  if (scale.length === 0) return null;
+  const random = createRandom(deriveSeed(seed, step));
+  const downbeat = step % STEPS_PER_BAR === 0;
+
+  const chance = 0.1 + 0.8 * density + (downbeat ? 0.2 : 0);
+  if (random() >= chance) return null;
+
+  // Weighted interval, leaning back towards the middle of the range
+  const len = scale.length;
+  const low = -len;
+  const high = 2 * len;
+  const centre = (low + high) / 2;
+  const lean = (previous - centre) / (high - low);
+  let total = 0;
+  const weights = INTERVALS.map(([interval, w]) => {
+    const weight = w * Math.max(0.1, 1 - lean * Math.sign(interval) * 2);
+    total += weight;
+    return weight;
+  });
+  let pick = random() * total;
+  let interval = 0;
+  for (let k = 0; k < INTERVALS.length; k++) {
+    pick -= weights[k];
+    if (pick <= 0) {
+      interval = INTERVALS[k][0];
+      break;
+    }
+  }
+  const degree = Math.max(low, Math.min(high, previous + interval));
+
+  // Sparse lines hold notes longer
+  const r = random();
+  const steps = r < 0.6 - density * 0.4 ? 2 + Math.floor(random() * 3) : 1;
+
+  return {
+    degree,
+    semitones: degreeToSemitones(degree, scale),
+    velocity: (downbeat ? 0.75 : 0.45) + random() * 0.25,
+    steps,
+  };
+}
@@ -0,0 +1,289 @@
+// ─── Mode Editor ──────────────────────────────────────────
+// Slider panel over every tunable of a `Mode`. Edits mutate the mode
+// object in place so the running simulation picks them up next frame.
+// Presets are shown read-only — they are shared and exported with every
+// pack, so they're changed by cloning them into a custom mode.
+
+import type { Mode } from './modes.ts';
+import { RANGE_LIMITS, type RangeKey, type ScalarKey } from './mode-pack.ts';
+import { GRADE_NAMES } from './color-grades.ts';
+import { EMITTER_KINDS, type EmitterKind } from './emitters.ts';
+
+type TripleKey = 'chord' | 'alphaCurve' | 'sizeCurve';
+type ChoiceKey = 'grade' | 'emitter';
+export type ModeField = ScalarKey | RangeKey | TripleKey | ChoiceKey | 'scale';
+
+interface FieldSpec {
+  key: Exclude<ModeField, ChoiceKey | 'scale'>;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { key: 'damping', min: 0.9, max: 0.999, step: 0.001 },
+  { key: 'mouseForce', min: 0, max: 40, step: 0.5 },
+  { key: 'drift', min: 0, max: 0.1, step: 0.001 },
+  { key: 'centerPull', min: 0, max: 0.01, step: 0.0001 },
+  { key: 'equilibrium', min: 0, max: 40, step: 0.5 },
+  { key: 'swirl', min: 0, max: 0.05, step: 0.001 },
+  { key: 'bloom', min: 0, max: 4, step: 0.05 },
+  { key: 'bloomRadius', min: 0, max: 1, step: 0.05 },
+  { key: 'bloomThreshold', min: 0, max: 1, step: 0.01 },
+  { key: 'aberration', min: 0, max: 2, step: 0.05 },
+  { key: 'vignette', min: 0, max: 1, step: 0.05 },
+  { key: 'grain', min: 0, max: 0.3, step: 0.01 },
+  { key: 'gradeAmount', min: 0, max: 1, step: 0.05 },
+  { key: 'depthRange', min: 2, max: 60, step: 1 },
+  { key: 'separation', min: 0, max: 0.02, step: 0.0005 },
+  { key: 'alignment', min: 0, max: 0.2, step: 0.005 },
+  { key: 'cohesion', min: 0, max: 0.02, step: 0.0005 },
+  { key: 'perception', min: 2, max: 12, step: 0.5 },
+  { key: 'spring', min: 0, max: 0.03, step: 0.0005 },
+  { key: 'reactBloom', min: 0, max: 3, step: 0.05 },
+  { key: 'reactSize', min: 0, max: 2, step: 0.05 },
+  { key: 'reactSwirl', min: 0, max: 0.05, step: 0.001 },
+  { key: 'reactBursts', min: 0, max: 1, step: 0.05 },
+  { key: 'trail', min: 0, max: 2, step: 0.05 },
+  { key: 'trailFade', min: 0, max: 1, step: 0.05 },
+  { key: 'lifeRange', min: RANGE_LIMITS.lifeRange[0], max: RANGE_LIMITS.lifeRange[1], step: 0.1 },
+  { key: 'emitSpeed', min: 0, max: 2, step: 0.05 },
+  { key: 'gravity', min: -0.01, max: 0.01, step: 0.0005 },
+  { key: 'alphaCurve', min: 0, max: 1, step: 0.05 },
+  { key: 'sizeCurve', min: 0, max: 3, step: 0.05 },
+  { key: 'hueRange', min: 0, max: 1, step: 0.01 },
+  { key: 'satRange', min: 0, max: 1, step: 0.01 },
+  { key: 'lightRange', min: 0, max: 1, step: 0.01 },
+  { key: 'sizeRange', min: 0.05, max: 6, step: 0.05 },
+  { key: 'chord', min: 20, max: 400, step: 0.5 },
+];
+
+/** Fields that only take effect once particle colors/sizes are re-targeted */
+export const APPEARANCE_FIELDS: ReadonlySet<ModeField> = new Set<ModeField>([
+  'hueRange', 'satRange', 'lightRange', 'sizeRange',
+]);
+
+export interface ModeEditorCallbacks {
+  onChange(mode: Mode, key: ModeField): void;
+  onClone(name: string): void;
+  onImport(file: File): void;
+  onExport(): void;
+  /** Render `seconds` of the shown mode's sound to a file */
+  onExportAudio(seconds: number): void;
+}
+
+function isRangeKey(key: ModeField): key is RangeKey {
+  return key.endsWith('Range') && key !== 'depthRange';
+}
+
+function isTripleKey(key: ModeField): key is TripleKey {
+  return key === 'chord' || key === 'alphaCurve' || key === 'sizeCurve';
+}
+
+function decimals(step: number): number {
+  return Math.max(0, -Math.floor(Math.log10(step)));
+}
+
+export class ModeEditor {
+  private mode: Mode | null = null;
+  private titleEl: HTMLElement;
+  private fieldsEl: HTMLElement;
+  private nameInput: HTMLInputElement;
+  private statusEl: HTMLElement;
+
+  constructor(private root: HTMLElement, private callbacks: ModeEditorCallbacks) {
+    this.titleEl = root.querySelector('.editor-title')!;
+    this.fieldsEl = root.querySelector('.editor-fields')!;
+    this.nameInput = root.querySelector('.editor-clone-name')!;
+    this.statusEl = root.querySelector('.editor-status')!;
+
+    root.querySelector('.editor-clone')!.addEventListener('click', () => this.clone());
+    this.nameInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.clone();
+    });
+
+    const fileInput = root.querySelector<HTMLInputElement>('.editor-file')!;
+    root.querySelector('.editor-import')!.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) callbacks.onImport(file);
+      fileInput.value = '';
+    });
+    root.querySelector('.editor-export')!.addEventListener('click', () => callbacks.onExport());
+
+    const secondsInput = root.querySelector<HTMLInputElement>('.editor-wav-seconds')!;
+    root.querySelector('.editor-wav')!.addEventListener('click', () => {
+      const seconds = Math.max(1, Math.min(600, secondsInput.valueAsNumber || 30));
+      secondsInput.value = String(seconds);
+      callbacks.onExportAudio(seconds);
+    });
+  }
+
+  /** Shows a multi-line message under the actions; empty text clears it */
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+
+  get visible(): boolean {
+    return !this.root.hidden;
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+
+  /** Rebuilds the sliders for `mode` — disabled unless it's a custom mode */
+  show(mode: Mode, custom: boolean) {
+    this.mode = mode;
+    this.titleEl.textContent = custom ? `${mode.name} · custom` : `${mode.name} · clone to edit`;
+    // Pickers sit just above the amount they go with
+    const pickers: Partial<Record<FieldSpec['key'], HTMLElement>> = {
+      gradeAmount: this.buildChoiceField('grade', GRADE_NAMES, (v) => { mode.grade = v; }),
+      emitSpeed: this.buildChoiceField('emitter', EMITTER_KINDS, (v) => { mode.emitter = v as EmitterKind; }),
+      chord: this.buildScaleField(),
+    };
+    this.fieldsEl.replaceChildren(
+      ...FIELDS.flatMap((f) => [pickers[f.key], this.buildField(f)].filter((el): el is HTMLElement => !!el))
+    );
+    this.fieldsEl.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLButtonElement>('input, select, button')
+      .forEach((el) => { el.disabled = !custom; });
+  }
+
+  private clone() {
+    const name = this.nameInput.value.trim().toLowerCase();
+    if (!name) {
+      this.nameInput.focus();
+      return;
+    }
+    this.nameInput.value = '';
+    this.callbacks.onClone(name);
+  }
+
+  private buildChoiceField(key: ChoiceKey, options: readonly string[], apply: (v: string) => void): HTMLElement {
+    const mode = this.mode!;
+    const row = document.createElement('label');
+    row.className = 'editor-row';
+
+    const label = document.createElement('span');
+    label.className = 'editor-label';
+    label.textContent = key;
+
+    const select = document.createElement('select');
+    select.append(...options.map((name) => new Option(name, name, false, name === mode[key])));
+    select.addEventListener('change', () => {
+      apply(select.value);
+      this.callbacks.onChange(mode, key);
+    });
+
+    row.append(label, select);
+    return row;
+  }
+
+  /** A toggle per semitone above the root — the last note left can't be turned off */
+  private buildScaleField(): HTMLElement {
+    const mode = this.mode!;
+    const scale = mode.scale;
+    // Not a label: a click on it would press the first toggle
+    const row = document.createElement('div');
+    row.className = 'editor-row';
+
+    const label = document.createElement('span');
+    label.className = 'editor-label';
+    label.textContent = 'scale';
+
+    const value = document.createElement('span');
+    value.className = 'editor-value';
+
+    const steps = document.createElement('div');
+    steps.className = 'editor-scale';
+    const toggles = Array.from({ length: 12 }, (_, semitone) => {
+      const button = document.createElement('button');
+      button.textContent = String(semitone);
+      button.addEventListener('click', () => {
+        // In place — the sound engine holds on to the array
+        const i = scale.indexOf(semitone);
+        if (i >= 0) {
+          if (scale.length === 1) return;
+          scale.splice(i, 1);
+        } else {
+          scale.push(semitone);
+          scale.sort((a, b) => a - b);
+        }
+        render();
+        this.callbacks.onChange(mode, 'scale');
+      });
+      return button;
+    });
+    steps.append(...toggles);
+
+    const render = () => {
+      value.textContent = scale.join(' ');
+      toggles.forEach((button, semitone) => button.classList.toggle('active', scale.includes(semitone)));
+    };
+
+    render();
+    row.append(label, value, steps);
+    return row;
+  }
+
+  private buildField(spec: FieldSpec): HTMLElement {
+    const mode = this.mode!;
+    const row = document.createElement('label');
+    row.className = 'editor-row';
+
+    const label = document.createElement('span');
+    label.className = 'editor-label';
+    label.textContent = spec.key;
+
+    const value = document.createElement('span');
+    value.className = 'editor-value';
+
+    const slider = (initial: number, apply: (v: number) => void) => {
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = String(spec.min);
+      input.max = String(spec.max);
+      input.step = String(spec.step);
+      input.value = String(initial);
+      input.addEventListener('input', () => {
+        apply(parseFloat(input.value));
+        render();
+        this.callbacks.onChange(mode, spec.key);
+      });
+      return input;
+    };
+
+    const digits = decimals(spec.step);
+    let render: () => void;
+    const sliders: HTMLInputElement[] = [];
+
+    if (isTripleKey(spec.key)) {
+      const triple = mode[spec.key];
+      triple.forEach((f, i) => sliders.push(slider(f, (v) => { triple[i] = v; })));
+      render = () => { value.textContent = triple.map((f) => f.toFixed(digits)).join(' · '); };
+    } else if (isRangeKey(spec.key)) {
+      const range = mode[spec.key];
+      // Keep min <= max: dragging one handle past the other pushes it along
+      sliders.push(
+        slider(range[0], (v) => {
+          range[0] = v;
+          if (range[1] < v) { range[1] = v; sliders[1].value = String(v); }
+        }),
+        slider(range[1], (v) => {
+          range[1] = v;
+          if (range[0] > v) { range[0] = v; sliders[0].value = String(v); }
+        })
+      );
+      render = () => { value.textContent = `${range[0].toFixed(digits)}–${range[1].toFixed(digits)}`; };
+    } else {
+      const key = spec.key;
+      sliders.push(slider(mode[key], (v) => { mode[key] = v; }));
+      render = () => { value.textContent = mode[key].toFixed(digits); };
+    }
+
+    render();
+    row.append(label, value, ...sliders);
+    return row;
+  }
+}
@@ -0,0 +1,302 @@
+// ─── Mode Packs ───────────────────────────────────────────
+// Versioned JSON exchange format for `Mode` definitions:
+//
+//   { "format": "void-mode-pack", "version": 8, "modes": [ { ...Mode } ] }
+//
+// Validation is lenient where a value can be repaired (out-of-range numbers
+// are clamped, inverted ranges swapped — each reported as a warning) and
+// strict where it can't (missing fields, wrong types — reported as errors).
+// Version 2 added the flocking fields, version 3 the morph spring,
+// version 4 audio reactivity, version 5 the melody scale, version 6
+// motion trails, version 7 the post effects and version 8 the particle
+// lifecycle; older packs read them as off (or, for the scale, as a major
+// pentatonic; for bloom, as the old fixed radius and threshold; for
+// lifecycles, as particles that live forever).
+
+import type { Mode } from './modes.ts';
+import { BOUNDS, MAX_DEPTH } from './simulation.ts';
+import { PERCEPTION_MIN } from './flocking.ts';
+import { GRADE_NAMES } from './color-grades.ts';
+import { EMITTER_KINDS, type EmitterKind } from './emitters.ts';
+
+export const MODE_PACK_FORMAT = 'void-mode-pack';
+export const MODE_PACK_VERSION = 8;
+
+export interface ModePack {
+  format: typeof MODE_PACK_FORMAT;
+  version: number;
+  modes: Mode[];
+}
+
+export class ModePackError extends Error {
+  constructor(readonly issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'ModePackError';
+  }
+}
+
+export interface ModeValidation {
+  mode: Mode | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export type ScalarKey =
+  | 'damping' | 'mouseForce' | 'drift' | 'centerPull' | 'equilibrium' | 'swirl' | 'bloom' | 'depthRange'
+  | 'bloomRadius' | 'bloomThreshold' | 'aberration' | 'vignette' | 'grain' | 'gradeAmount'
+  | 'separation' | 'alignment' | 'cohesion' | 'perception' | 'spring'
+  | 'reactBloom' | 'reactSize' | 'reactSwirl' | 'reactBursts'
+  | 'trail' | 'trailFade' | 'emitSpeed' | 'gravity';
+export type RangeKey = 'hueRange' | 'satRange' | 'lightRange' | 'sizeRange' | 'lifeRange';
+type CurveKey = 'alphaCurve' | 'sizeCurve';
+
+// Hard limits — beyond these the simulation becomes unstable or invisible
+export const SCALAR_LIMITS: Record<ScalarKey, [number, number]> = {
+  damping: [0, 0.999],
+  mouseForce: [0, 100],
+  drift: [0, 1],
+  centerPull: [0, 0.05],
+  equilibrium: [0, BOUNDS],
+  swirl: [0, 0.2],
+  bloom: [0, 5],
+  bloomRadius: [0, 1],
+  bloomThreshold: [0, 1],
+  aberration: [0, 2],
+  vignette: [0, 1],
+  grain: [0, 0.3],
+  gradeAmount: [0, 1],
+  depthRange: [1, MAX_DEPTH],
+  separation: [0, 0.05],
+  alignment: [0, 0.5],
+  cohesion: [0, 0.05],
+  perception: [PERCEPTION_MIN, 20],
+  spring: [0, 0.1],
+  reactBloom: [0, 3],
+  reactSize: [0, 2],
+  reactSwirl: [0, 0.05],
+  reactBursts: [0, 1],
+  trail: [0, 5],
+  trailFade: [0, 1],
+  emitSpeed: [0, 3],
+  gravity: [-0.02, 0.02],
+};
+
+/** Fields added after version 1 — absent means the feature is off */
+const SCALAR_DEFAULTS: Partial<Record<ScalarKey, number>> = {
+  separation: 0,
+  alignment: 0,
+  cohesion: 0,
+  perception: 4,
+  spring: 0,
+  reactBloom: 0,
+  reactSize: 0,
+  reactSwirl: 0,
+  reactBursts: 0,
+  trail: 0,
+  trailFade: 0.3,
+  bloomRadius: 0.5,
+  bloomThreshold: 0.15,
+  aberration: 0,
+  vignette: 0,
+  grain: 0,
+  gradeAmount: 0,
+  emitSpeed: 0.5,
+  gravity: 0,
+};
+
+export const RANGE_LIMITS: Record<RangeKey, [number, number]> = {
+  hueRange: [0, 1],
+  satRange: [0, 1],
+  lightRange: [0, 1],
+  sizeRange: [0.05, 10],
+  lifeRange: [0, 60],
+};
+
+const RANGE_DEFAULTS: Partial<Record<RangeKey, [number, number]>> = {
+  lifeRange: [0, 0],
+};
+
+const CURVE_LIMITS: Record<CurveKey, [number, number]> = {
+  alphaCurve: [0, 1],
+  sizeCurve: [0, 4],
+};
+
+const CHORD_LIMITS: [number, number] = [20, 2000];
+const DEFAULT_SCALE = [0, 2, 4, 7, 9];
+const NAME_MAX = 24;
+
+function isNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 1e6) / 1e6);
+}
+
+export function validateMode(raw: unknown, path = 'mode'): ModeValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { mode: null, errors: [`${path}: expected an object`], warnings };
+  }
+  const src = raw as Record<string, unknown>;
+
+  const clamp = (key: string, v: number, [lo, hi]: [number, number]): number => {
+    if (v < lo || v > hi) {
+      const c = Math.max(lo, Math.min(hi, v));
+      warnings.push(`${path}.${key}: ${fmt(v)} is outside ${fmt(lo)}–${fmt(hi)}, clamped to ${fmt(c)}`);
+      return c;
+    }
+    return v;
+  };
+
+  let name = '';
+  if (typeof src.name !== 'string' || !src.name.trim()) {
+    errors.push(`${path}.name: expected a non-empty string`);
+  } else {
+    name = src.name.trim().toLowerCase();
+    if (name.length > NAME_MAX) {
+      warnings.push(`${path}.name: longer than ${NAME_MAX} characters, truncated`);
+      name = name.slice(0, NAME_MAX);
+    }
+  }
+
+  let desc = '';
+  if (typeof src.desc === 'string') desc = src.desc;
+  else if (src.desc !== undefined) errors.push(`${path}.desc: expected a string`);
+
+  const scalars = {} as Record<ScalarKey, number>;
+  for (const key of Object.keys(SCALAR_LIMITS) as ScalarKey[]) {
+    const v = src[key] ?? SCALAR_DEFAULTS[key];
+    if (!isNumber(v)) {
+      errors.push(`${path}.${key}: expected a number`);
+      continue;
+    }
+    scalars[key] = clamp(key, v, SCALAR_LIMITS[key]);
+  }
+
+  const ranges = {} as Record<RangeKey, [number, number]>;
+  for (const key of Object.keys(RANGE_LIMITS) as RangeKey[]) {
+    const v = src[key] ?? RANGE_DEFAULTS[key];
+    if (!Array.isArray(v) || v.length !== 2 || !v.every(isNumber)) {
+      errors.push(`${path}.${key}: expected [min, max]`);
+      continue;
+    }
+    let [lo, hi] = v as [number, number];
+    if (lo > hi) {
+      warnings.push(`${path}.${key}: inverted [${fmt(lo)}, ${fmt(hi)}], swapped`);
+      [lo, hi] = [hi, lo];
+    }
+    ranges[key] = [clamp(`${key}[0]`, lo, RANGE_LIMITS[key]), clamp(`${key}[1]`, hi, RANGE_LIMITS[key])];
+  }
+
+  let chord: [number, number, number] | null = null;
+  if (!Array.isArray(src.chord) || src.chord.length !== 3 || !src.chord.every(isNumber)) {
+    errors.push(`${path}.chord: expected three frequencies in Hz`);
+  } else {
+    const c = src.chord as number[];
+    chord = [0, 1, 2].map((i) => clamp(`chord[${i}]`, c[i], CHORD_LIMITS)) as [number, number, number];
+  }
+
+  const curves = {} as Record<CurveKey, [number, number, number]>;
+  for (const key of Object.keys(CURVE_LIMITS) as CurveKey[]) {
+    const v = src[key] ?? [1, 1, 1];
+    if (!Array.isArray(v) || v.length !== 3 || !v.every(isNumber)) {
+      errors.push(`${path}.${key}: expected [birth, middle, death]`);
+      continue;
+    }
+    curves[key] = [0, 1, 2].map((i) => clamp(`${key}[${i}]`, v[i], CURVE_LIMITS[key])) as [number, number, number];
+  }
+
+  let scale = [...DEFAULT_SCALE];
+  if (src.scale !== undefined) {
+    if (!Array.isArray(src.scale) || src.scale.length === 0 || !src.scale.every(isNumber)) {
+      errors.push(`${path}.scale: expected a non-empty array of semitones`);
+    } else {
+      // Folded into one octave, rounded, sorted and deduplicated
+      const raw = src.scale as number[];
+      scale = [...new Set(raw.map((v) => ((Math.round(v) % 12) + 12) % 12))].sort((a, b) => a - b);
+      if (scale.length !== raw.length || scale.some((v, i) => v !== raw[i])) {
+        warnings.push(`${path}.scale: normalized to [${scale.join(', ')}]`);
+      }
+    }
+  }
+
+  let grade = 'none';
+  if (src.grade !== undefined) {
+    if (typeof src.grade !== 'string') errors.push(`${path}.grade: expected a grade name`);
+    else if (!GRADE_NAMES.includes(src.grade)) warnings.push(`${path}.grade: unknown grade "${src.grade}", using none`);
+    else grade = src.grade;
+  }
+
+  let emitter: EmitterKind = 'none';
+  if (src.emitter !== undefined) {
+    const kind = EMITTER_KINDS.find((k) => k === src.emitter);
+    if (typeof src.emitter !== 'string') errors.push(`${path}.emitter: expected an emitter name`);
+    else if (!kind) warnings.push(`${path}.emitter: unknown emitter "${src.emitter}", using none`);
+    else emitter = kind;
+  }
+
+  if (errors.length > 0) return { mode: null, errors, warnings };
+
+  return {
+    mode: { name, desc, ...ranges, ...scalars, ...curves, chord: chord!, scale, grade, emitter },
+    errors,
+    warnings,
+  };
+}
+
+export function serializeModePack(modes: Mode[]): string {
+  const pack: ModePack = { format: MODE_PACK_FORMAT, version: MODE_PACK_VERSION, modes };
+  return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Parses and validates a pack. Throws `ModePackError` listing every problem
+ * if the pack or any mode in it is unusable; otherwise returns the repaired
+ * modes along with warnings about what was clamped.
+ */
+export function parseModePack(json: string): { modes: Mode[]; warnings: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new ModePackError([`not valid JSON: ${(err as Error).message}`]);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ModePackError(['expected a mode pack object']);
+  }
+  const pack = raw as Record<string, unknown>;
+  if (pack.format !== MODE_PACK_FORMAT) {
+    throw new ModePackError([`format: expected "${MODE_PACK_FORMAT}"`]);
+  }
+  if (!isNumber(pack.version) || pack.version < 1 || pack.version > MODE_PACK_VERSION) {
+    throw new ModePackError([`version: unsupported (this build reads up to ${MODE_PACK_VERSION})`]);
+  }
+  if (!Array.isArray(pack.modes) || pack.modes.length === 0) {
+    throw new ModePackError(['modes: expected a non-empty array']);
+  }
+
+  const modes: Mode[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  pack.modes.forEach((m, i) => {
+    const result = validateMode(m, `modes[${i}]`);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+    if (!result.mode) return;
+    if (seen.has(result.mode.name)) {
+      errors.push(`modes[${i}].name: duplicate name "${result.mode.name}"`);
+      return;
+    }
+    seen.add(result.mode.name);
+    modes.push(result.mode);
+  });
+
+  if (errors.length > 0) throw new ModePackError(errors);
+  return { modes, warnings };
+}
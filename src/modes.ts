@@ -0,0 +1,507 @@
+// ─── Mode Definitions ────────────────────────────────────
+// Presets shared by the simulation, the renderer and the sound engine.
+
+import type { EmitterKind } from './emitters.ts';
+
+export const DEFAULT_MODE = 4; // void
+
+export interface Mode {
+  name: string;
+  desc: string;
+  hueRange: [number, number];
+  satRange: [number, number];
+  lightRange: [number, number];
+  damping: number;
+  mouseForce: number;
+  drift: number;
+  centerPull: number;
+  equilibrium: number;
+  swirl: number;
+  sizeRange: [number, number];
+  bloom: number;
+  bloomRadius: number;
+  /** Brightness below which nothing blooms */
+  bloomThreshold: number;
+  /** Post effects — 0 takes the pass out of the chain */
+  aberration: number;
+  vignette: number;
+  grain: number;
+  /** Color grading look (see color-grades.ts) and how strongly it applies */
+  grade: string;
+  gradeAmount: number;
+  depthRange: number;
+  /** Flocking weights — steer away from crowding, match neighbors' heading, close ranks */
+  separation: number;
+  alignment: number;
+  cohesion: number;
+  /** Radius within which flockmates are seen */
+  perception: number;
+  /** Spring pull towards each particle's morph target (text, SVG, shape) — 0 = free */
+  spring: number;
+  /**
+   * Audio reactivity: bass lifts bloom, loudness pulses particle size, mids
+   * add swirl, and each onset fires a burst with `reactBursts` probability
+   */
+  reactBloom: number;
+  reactSize: number;
+  reactSwirl: number;
+  reactBursts: number;
+  /** Seconds for a motion trail to fade to a tenth — 0 = no trails */
+  trail: number;
+  /** How crisply a trail's faint tail is cut off, 0–1 — 0 leaves a haze */
+  trailFade: number;
+  /** Seconds a particle lives before rebirth — [0, 0] lets particles live forever */
+  lifeRange: [number, number];
+  /** Where dead particles are reborn, and how fast they leave it */
+  emitter: EmitterKind;
+  emitSpeed: number;
+  /** Downward pull per frame — fountains arc, meteors fall */
+  gravity: number;
+  /** Alpha and size multipliers at birth, mid-life and death — mortal particles only */
+  alphaCurve: [number, number, number];
+  sizeCurve: [number, number, number];
+  /** Drone frequencies (Hz) for the ambient sound engine */
+  chord: [number, number, number];
+  /** Melody scale — semitones above the chord's root, ascending within an octave */
+  scale: number[];
+}
+
+export const MODES: Mode[] = [
+  {
+    name: 'nebula',
+    desc: 'gentle drift through deep space clouds',
+    hueRange: [0.58, 0.82],
+    satRange: [0.5, 1.0],
+    lightRange: [0.3, 0.75],
+    damping: 0.988,
+    mouseForce: 12,
+    drift: 0.02,
+    centerPull: 0.0008,
+    equilibrium: 12,
+    swirl: 0.0,
+    sizeRange: [0.4, 2.8],
+    bloom: 1.5,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 25,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 0.8,
+    reactSize: 0.4,
+    reactSwirl: 0.005,
+    reactBursts: 0.3,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [65.4, 98.0, 164.8], // C2, G2, E3 — open, spacious
+    scale: [0, 2, 4, 7, 9], // major pentatonic
+  },
+  {
+    name: 'solar',
+    desc: 'the heart of a burning star',
+    hueRange: [0.0, 0.1],
+    satRange: [0.7, 1.0],
+    lightRange: [0.45, 0.9],
+    damping: 0.982,
+    mouseForce: 18,
+    drift: 0.04,
+    centerPull: 0.002,
+    equilibrium: 8,
+    swirl: 0.0,
+    sizeRange: [0.3, 3.5],
+    bloom: 2.2,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 18,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 1.2,
+    reactSize: 0.6,
+    reactSwirl: 0.004,
+    reactBursts: 0.5,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [73.4, 110.0, 185.0], // D2, A2, F#3 — warm, bright
+    scale: [0, 2, 4, 6, 7, 9, 11], // lydian
+  },
+  {
+    name: 'aurora',
+    desc: 'flowing curtains of light',
+    hueRange: [0.28, 0.52],
+    satRange: [0.6, 1.0],
+    lightRange: [0.3, 0.7],
+    damping: 0.993,
+    mouseForce: 6,
+    drift: 0.012,
+    centerPull: 0.0004,
+    equilibrium: 15,
+    swirl: 0.002,
+    sizeRange: [0.3, 2.2],
+    bloom: 1.2,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 30,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 0.8,
+    reactSize: 0.3,
+    reactSwirl: 0.01,
+    reactBursts: 0.2,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [82.4, 123.5, 207.7], // E2, B2, G#3 — shimmering
+    scale: [0, 2, 4, 7, 9, 11], // major hexatonic
+  },
+  {
+    name: 'vortex',
+    desc: 'spiral into the infinite',
+    hueRange: [0.0, 1.0],
+    satRange: [0.8, 1.0],
+    lightRange: [0.4, 0.7],
+    damping: 0.984,
+    mouseForce: 10,
+    drift: 0.01,
+    centerPull: 0.003,
+    equilibrium: 10,
+    swirl: 0.02,
+    sizeRange: [0.2, 2.0],
+    bloom: 1.8,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 12,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 0.6,
+    reactSize: 0.4,
+    reactSwirl: 0.02,
+    reactBursts: 0.4,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [92.5, 138.6, 233.1], // F#2, C#3, A#3 — tense, spiraling
+    scale: [0, 2, 4, 6, 8, 10], // whole tone
+  },
+  {
+    name: 'void',
+    desc: 'silence between the stars',
+    hueRange: [0.55, 0.68],
+    satRange: [0.03, 0.15],
+    lightRange: [0.5, 0.95],
+    damping: 0.996,
+    mouseForce: 4,
+    drift: 0.005,
+    centerPull: 0.0002,
+    equilibrium: 18,
+    swirl: 0.0,
+    sizeRange: [0.15, 1.2],
+    bloom: 2.8,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 40,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 1.5,
+    reactSize: 0.3,
+    reactSwirl: 0.002,
+    reactBursts: 0.1,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [55.0, 82.4, 123.5], // A1, E2, B2 — deep, ethereal
+    scale: [0, 2, 3, 7, 8], // hirajoshi
+  },
+  {
+    name: 'murmuration',
+    desc: 'a thousand wings turning as one',
+    hueRange: [0.68, 0.8],
+    satRange: [0.25, 0.55],
+    lightRange: [0.4, 0.8],
+    damping: 0.985,
+    mouseForce: 8,
+    drift: 0.006,
+    centerPull: 0.0006,
+    equilibrium: 14,
+    swirl: 0.0,
+    sizeRange: [0.3, 1.6],
+    bloom: 1.4,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 22,
+    separation: 0.004,
+    alignment: 0.06,
+    cohesion: 0.003,
+    perception: 5,
+    spring: 0,
+    reactBloom: 0.4,
+    reactSize: 0.2,
+    reactSwirl: 0,
+    reactBursts: 0.6,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [98.0, 146.8, 246.9], // G2, D3, B3 — airy, open
+    scale: [0, 2, 4, 5, 7, 9, 10], // mixolydian
+  },
+  {
+    name: 'morph',
+    desc: 'light gathering into form',
+    hueRange: [0.5, 0.62],
+    satRange: [0.3, 0.7],
+    lightRange: [0.55, 0.9],
+    damping: 0.92,
+    mouseForce: 10,
+    drift: 0.002,
+    centerPull: 0.0,
+    equilibrium: 0,
+    swirl: 0.0,
+    sizeRange: [0.3, 1.4],
+    bloom: 1.2,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 24,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0.008,
+    reactBloom: 0.8,
+    reactSize: 0.5,
+    reactSwirl: 0,
+    reactBursts: 0.3,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0, 0],
+    emitter: 'none',
+    emitSpeed: 0.5,
+    gravity: 0,
+    alphaCurve: [1, 1, 1],
+    sizeCurve: [1, 1, 1],
+    chord: [110.0, 164.8, 277.2], // A2, E3, C#4 — clear, resolved
+    scale: [0, 2, 4, 7, 9], // major pentatonic
+  },
+  {
+    name: 'supernova',
+    desc: 'shells of fire blown out from a dying star',
+    hueRange: [0.02, 0.14],
+    satRange: [0.6, 1.0],
+    lightRange: [0.5, 0.95],
+    damping: 0.985,
+    mouseForce: 10,
+    drift: 0.004,
+    centerPull: 0.0,
+    equilibrium: 0,
+    swirl: 0.003,
+    sizeRange: [0.3, 2.4],
+    bloom: 2.4,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 30,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 1.4,
+    reactSize: 0.6,
+    reactSwirl: 0.006,
+    reactBursts: 0.5,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [2.5, 5],
+    emitter: 'ring',
+    emitSpeed: 0.9,
+    gravity: 0,
+    alphaCurve: [0, 1, 0],
+    sizeCurve: [1.8, 1, 0.4],
+    chord: [61.7, 92.5, 155.6], // B1, F#2, D#3 — heavy, blazing
+    scale: [0, 1, 4, 5, 7, 8, 10], // phrygian dominant
+  },
+  {
+    name: 'meteors',
+    desc: 'streaks of fire across the night',
+    hueRange: [0.5, 0.62],
+    satRange: [0.2, 0.6],
+    lightRange: [0.6, 0.95],
+    damping: 0.995,
+    mouseForce: 8,
+    drift: 0.002,
+    centerPull: 0.0,
+    equilibrium: 0,
+    swirl: 0.0,
+    sizeRange: [0.3, 1.8],
+    bloom: 1.8,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0,
+    vignette: 0,
+    grain: 0,
+    grade: 'none',
+    gradeAmount: 0,
+    depthRange: 20,
+    separation: 0,
+    alignment: 0,
+    cohesion: 0,
+    perception: 4,
+    spring: 0,
+    reactBloom: 1.0,
+    reactSize: 0.4,
+    reactSwirl: 0,
+    reactBursts: 0.2,
+    trail: 0,
+    trailFade: 0.3,
+    lifeRange: [0.8, 2.2],
+    emitter: 'comet',
+    emitSpeed: 0.4,
+    gravity: 0.001,
+    alphaCurve: [1, 0.6, 0],
+    sizeCurve: [1.6, 0.8, 0.2],
+    chord: [69.3, 103.8, 174.6], // C#2, G#2, F3 — cold, wide
+    scale: [0, 2, 3, 5, 7, 9, 10], // dorian
+  },
+];
+
+// ─── Blending ────────────────────────────────────────────
+export function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpCurve(a: [number, number, number], b: [number, number, number], t: number): [number, number, number] {
+  return [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)];
+}
+
+/**
+ * Interpolates the scalar tunables and life curves of two modes; ranges,
+ * the grade and the emitter snap to `b`.
+ */
+export function blendModes(a: Mode, b: Mode, t: number): Mode {
+  if (t >= 1) return b;
+  return {
+    name: b.name,
+    desc: b.desc,
+    hueRange: b.hueRange,
+    satRange: b.satRange,
+    lightRange: b.lightRange,
+    sizeRange: b.sizeRange,
+    damping: lerp(a.damping, b.damping, t),
+    mouseForce: lerp(a.mouseForce, b.mouseForce, t),
+    drift: lerp(a.drift, b.drift, t),
+    centerPull: lerp(a.centerPull, b.centerPull, t),
+    equilibrium: lerp(a.equilibrium, b.equilibrium, t),
+    swirl: lerp(a.swirl, b.swirl, t),
+    bloom: lerp(a.bloom, b.bloom, t),
+    bloomRadius: lerp(a.bloomRadius, b.bloomRadius, t),
+    bloomThreshold: lerp(a.bloomThreshold, b.bloomThreshold, t),
+    aberration: lerp(a.aberration, b.aberration, t),
+    vignette: lerp(a.vignette, b.vignette, t),
+    grain: lerp(a.grain, b.grain, t),
+    grade: b.grade,
+    gradeAmount: lerp(a.gradeAmount, b.gradeAmount, t),
+    depthRange: lerp(a.depthRange, b.depthRange, t),
+    separation: lerp(a.separation, b.separation, t),
+    alignment: lerp(a.alignment, b.alignment, t),
+    cohesion: lerp(a.cohesion, b.cohesion, t),
+    perception: lerp(a.perception, b.perception, t),
+    spring: lerp(a.spring, b.spring, t),
+    reactBloom: lerp(a.reactBloom, b.reactBloom, t),
+    reactSize: lerp(a.reactSize, b.reactSize, t),
+    reactSwirl: lerp(a.reactSwirl, b.reactSwirl, t),
+    reactBursts: lerp(a.reactBursts, b.reactBursts, t),
+    trail: lerp(a.trail, b.trail, t),
+    trailFade: lerp(a.trailFade, b.trailFade, t),
+    lifeRange: b.lifeRange,
+    emitter: b.emitter,
+    emitSpeed: lerp(a.emitSpeed, b.emitSpeed, t),
+    gravity: lerp(a.gravity, b.gravity, t),
+    alphaCurve: lerpCurve(a.alphaCurve, b.alphaCurve, t),
+    sizeCurve: lerpCurve(a.sizeCurve, b.sizeCurve, t),
+    chord: b.chord,
+    scale: b.scale,
+  };
+}
@@ -0,0 +1,65 @@
+// ─── Morph Panel ──────────────────────────────────────────
+// Picks what morph modes assemble into: typed text, a built-in shape, an
+// SVG drawing or a picture. Shown while a mode with a spring is active.
+
+import { SHAPES, type ShapeName } from './shapes.ts';
+
+export interface MorphPanelCallbacks {
+  onText(text: string): void;
+  onShape(shape: ShapeName): void;
+  /** An SVG or raster image */
+  onFile(file: File): void;
+}
+
+export class MorphPanel {
+  private textInput: HTMLInputElement;
+  private depthInput: HTMLInputElement;
+  private statusEl: HTMLElement;
+
+  constructor(private root: HTMLElement, callbacks: MorphPanelCallbacks) {
+    this.textInput = root.querySelector('.morph-text')!;
+    this.depthInput = root.querySelector('.morph-depth input')!;
+    this.statusEl = root.querySelector('.editor-status')!;
+
+    // " / " breaks lines, for two-line title cards
+    const submit = () => {
+      const text = this.textInput.value.trim();
+      if (text) callbacks.onText(text.split(/\s+\/\s+/).join('\n'));
+    };
+    root.querySelector('.morph-apply')!.addEventListener('click', submit);
+    this.textInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') submit();
+    });
+
+    root.querySelector('.morph-shapes')!.append(
+      ...SHAPES.map((shape) => {
+        const btn = document.createElement('button');
+        btn.textContent = shape;
+        btn.addEventListener('click', () => callbacks.onShape(shape));
+        return btn;
+      })
+    );
+
+    const fileInput = root.querySelector<HTMLInputElement>('.morph-file')!;
+    root.querySelector('.morph-open')!.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) callbacks.onFile(file);
+      fileInput.value = '';
+    });
+  }
+
+  /** Whether pictures should bulge towards the camera where they're bright */
+  get depth(): boolean {
+    return this.depthInput.checked;
+  }
+
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+}
@@ -0,0 +1,166 @@
+// ─── Palette Panel ────────────────────────────────────────
+// Edits a multi-stop palette: presets, a color and weight per stop, and
+// the particle attribute that picks each particle's place along it.
+
+import {
+  COLOR_SOURCES,
+  MAX_STOPS,
+  PALETTE_PRESETS,
+  WEIGHT_RANGE,
+  paletteCss,
+  type ColorSource,
+  type Palette,
+  type PaletteStop,
+} from './palettes.ts';
+
+export interface PalettePanelCallbacks {
+  /** The palette was edited — apply it */
+  onChange(palette: Palette): void;
+  /** Back to the particles' own colors */
+  onOff(): void;
+}
+
+export class PalettePanel {
+  private palette: Palette = { stops: PALETTE_PRESETS.ember.map((s) => ({ ...s })), source: 'random' };
+  private active = false;
+  private previewEl: HTMLElement;
+  private stopsEl: HTMLElement;
+  private addBtn: HTMLButtonElement;
+  private offBtn: HTMLButtonElement;
+  private sourceButtons: HTMLButtonElement[];
+  private statusEl: HTMLElement;
+
+  constructor(private root: HTMLElement, private callbacks: PalettePanelCallbacks) {
+    this.previewEl = root.querySelector('.palette-preview')!;
+    this.stopsEl = root.querySelector('.palette-stops')!;
+    this.addBtn = root.querySelector('.palette-add')!;
+    this.offBtn = root.querySelector('.palette-off')!;
+    this.statusEl = root.querySelector('.editor-status')!;
+
+    root.querySelector('.palette-presets')!.append(
+      ...Object.entries(PALETTE_PRESETS).map(([name, stops]) => {
+        const btn = document.createElement('button');
+        btn.textContent = name;
+        btn.style.setProperty('--gradient', paletteCss(stops));
+        btn.addEventListener('click', () => {
+          this.palette = { ...this.palette, stops: stops.map((s) => ({ ...s })) };
+          this.renderStops();
+          this.emit();
+        });
+        return btn;
+      })
+    );
+
+    this.sourceButtons = COLOR_SOURCES.map((source) => {
+      const btn = document.createElement('button');
+      btn.textContent = source;
+      btn.dataset.source = source;
+      btn.addEventListener('click', () => this.setSource(source));
+      return btn;
+    });
+    root.querySelector('.palette-sources')!.append(...this.sourceButtons);
+
+    this.addBtn.addEventListener('click', () => {
+      const { stops } = this.palette;
+      if (stops.length >= MAX_STOPS) return;
+      stops.push({ color: stops[stops.length - 1]?.color ?? '#ffffff', weight: 1 });
+      this.renderStops();
+      this.emit();
+    });
+    this.offBtn.addEventListener('click', () => callbacks.onOff());
+
+    this.renderStops();
+    this.setPalette(null);
+  }
+
+  get visible(): boolean {
+    return !this.root.hidden;
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+
+  /** The palette in effect, or null while particles keep their own colors */
+  setPalette(palette: Palette | null) {
+    this.active = palette !== null;
+    if (palette) {
+      this.palette = { stops: palette.stops.map((s) => ({ ...s })), source: palette.source };
+      this.renderStops();
+    }
+    this.offBtn.classList.toggle('active', !this.active);
+    this.updateSources();
+  }
+
+  /** The palette being edited, whether or not it's applied */
+  get current(): Palette {
+    return { stops: this.palette.stops.map((s) => ({ ...s })), source: this.palette.source };
+  }
+
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+
+  private setSource(source: ColorSource) {
+    this.palette.source = source;
+    this.emit();
+  }
+
+  private emit() {
+    this.previewEl.style.background = paletteCss(this.palette.stops);
+    this.callbacks.onChange(this.current);
+  }
+
+  private updateSources() {
+    this.sourceButtons.forEach((btn) => {
+      btn.classList.toggle('active', this.active && btn.dataset.source === this.palette.source);
+    });
+  }
+
+  /** Rebuilt only when stops come or go, so a color picker in use keeps focus */
+  private renderStops() {
+    const { stops } = this.palette;
+    this.stopsEl.replaceChildren(...stops.map((stop, i) => this.stopRow(stop, i)));
+    this.previewEl.style.background = paletteCss(stops);
+    this.addBtn.disabled = stops.length >= MAX_STOPS;
+  }
+
+  private stopRow(stop: PaletteStop, index: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'palette-stop';
+
+    const color = document.createElement('input');
+    color.type = 'color';
+    color.value = stop.color;
+    color.addEventListener('input', () => {
+      stop.color = color.value;
+      this.emit();
+    });
+
+    const weight = document.createElement('input');
+    weight.type = 'range';
+    weight.min = String(WEIGHT_RANGE[0]);
+    weight.max = String(WEIGHT_RANGE[1]);
+    weight.step = '0.1';
+    weight.value = String(stop.weight);
+    weight.title = 'Weight — how much of the palette this color takes';
+    weight.addEventListener('input', () => {
+      stop.weight = weight.valueAsNumber;
+      this.emit();
+    });
+
+    const remove = document.createElement('button');
+    remove.textContent = '×';
+    remove.title = 'Remove this stop';
+    remove.disabled = this.palette.stops.length <= 1;
+    remove.addEventListener('click', () => {
+      this.palette.stops.splice(index, 1);
+      this.renderStops();
+      this.emit();
+    });
+
+    row.append(color, weight, remove);
+    return row;
+  }
+}
@@ -0,0 +1,116 @@
+// ─── Palettes ─────────────────────────────────────────────
+// Multi-stop color palettes. Each stop claims a share of the gradient in
+// proportion to its weight; the shader looks particles up in it by an
+// attribute — speed, distance from the center, depth or age — or at random.
+
+export interface PaletteStop {
+  /** '#rrggbb' */
+  color: string;
+  weight: number;
+}
+
+export const COLOR_SOURCES = ['random', 'speed', 'distance', 'depth', 'age'] as const;
+
+export type ColorSource = (typeof COLOR_SOURCES)[number];
+
+export interface Palette {
+  stops: PaletteStop[];
+  /** What picks a particle's place along the gradient */
+  source: ColorSource;
+}
+
+export const MAX_STOPS = 8;
+export const WEIGHT_RANGE: [number, number] = [0.1, 4];
+/** Texels in a baked gradient */
+export const GRADIENT_WIDTH = 256;
+
+export const PALETTE_PRESETS: Record<string, PaletteStop[]> = {
+  ember: [
+    { color: '#2a0a12', weight: 1 },
+    { color: '#c42a1c', weight: 1.5 },
+    { color: '#ff8c2a', weight: 1 },
+    { color: '#ffe6a0', weight: 0.5 },
+  ],
+  ocean: [
+    { color: '#06203f', weight: 1 },
+    { color: '#1a6fb0', weight: 1.5 },
+    { color: '#3fd0d4', weight: 1 },
+    { color: '#e0fbff', weight: 0.4 },
+  ],
+  aurora: [
+    { color: '#1b8a5a', weight: 1.5 },
+    { color: '#3fe0a0', weight: 1 },
+    { color: '#4a7bff', weight: 1 },
+    { color: '#b04aff', weight: 0.6 },
+  ],
+  sunset: [
+    { color: '#3a1a5c', weight: 1 },
+    { color: '#d43a6a', weight: 1 },
+    { color: '#ff9a3c', weight: 1 },
+    { color: '#ffe08a', weight: 0.6 },
+  ],
+  neon: [
+    { color: '#ff2bd6', weight: 1 },
+    { color: '#7a2bff', weight: 1 },
+    { color: '#2be0ff', weight: 1 },
+  ],
+  mono: [
+    { color: '#404656', weight: 1 },
+    { color: '#ffffff', weight: 1 },
+  ],
+};
+
+export function clampWeight(weight: number): number {
+  return Math.max(WEIGHT_RANGE[0], Math.min(WEIGHT_RANGE[1], weight));
+}
+
+export function isHexColor(v: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(v);
+}
+
+function rgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Where each stop sits along the gradient, 0–1: the middle of its weighted share */
+function stopCenters(stops: PaletteStop[]): number[] {
+  const total = stops.reduce((sum, s) => sum + s.weight, 0);
+  let start = 0;
+  return stops.map((s) => {
+    const center = (start + s.weight / 2) / total;
+    start += s.weight;
+    return center;
+  });
+}
+
+/**
+ * Bakes stops into RGBA texels, sRGB-encoded. Colors blend linearly between
+ * stop centers and hold flat beyond the first and last, as a CSS gradient does.
+ */
+export function paletteGradient(stops: PaletteStop[], width = GRADIENT_WIDTH): Uint8Array {
+  const data = new Uint8Array(width * 4);
+  if (stops.length === 0) return data.fill(255);
+  const centers = stopCenters(stops);
+  const colors = stops.map((s) => rgb(s.color));
+  let k = 0;
+  for (let x = 0; x < width; x++) {
+    const t = (x + 0.5) / width;
+    while (k < stops.length - 1 && t > centers[k + 1]) k++;
+    const a = colors[k];
+    const b = colors[Math.min(k + 1, stops.length - 1)];
+    const span = (centers[k + 1] ?? 1) - centers[k];
+    const f = span > 0 ? Math.max(0, Math.min(1, (t - centers[k]) / span)) : 0;
+    for (let c = 0; c < 3; c++) data[x * 4 + c] = Math.round(a[c] + (b[c] - a[c]) * f);
+    data[x * 4 + 3] = 255;
+  }
+  return data;
+}
+
+/** The same gradient as a CSS background, for previews */
+export function paletteCss(stops: PaletteStop[]): string {
+  if (stops.length === 1) return stops[0].color;
+  const centers = stopCenters(stops);
+  const parts = stops.map((s, i) => `${s.color} ${(centers[i] * 100).toFixed(1)}%`);
+  return `linear-gradient(90deg, ${parts.join(', ')})`;
+}
@@ -0,0 +1,167 @@
+// ─── Pointer Gestures ─────────────────────────────────────
+// One Pointer Events layer for mouse, touch and pen. Tracks every pointer
+// individually (a hovering mouse included) and recognizes the gestures
+// that need more than one: two-finger pinch, two-finger tap and long press.
+
+export interface TrackedPointer {
+  readonly id: number;
+  readonly type: string;
+  /** Client coordinates */
+  x: number;
+  y: number;
+  /** Button or contact held */
+  pressed: boolean;
+  /** Button that started the press (0 for touch and pen) */
+  button: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+}
+
+export interface GestureCallbacks {
+  /** A press started — mouse button, finger or pen contact */
+  onDown(p: TrackedPointer, e: PointerEvent): void;
+  /** Any movement, hovering included */
+  onMove(p: TrackedPointer, e: PointerEvent): void;
+  /** The press ended */
+  onUp(p: TrackedPointer, e: PointerEvent): void;
+  /** The pointer is gone: the mouse left, or a finger or pen lifted */
+  onLeave(p: TrackedPointer): void;
+  /** Two fingers moved apart (> 1) or together (< 1) by this factor since the last call */
+  onPinch(scale: number): void;
+  /** Two fingers touched and lifted together without moving, centred at x, y */
+  onTwoFingerTap(x: number, y: number): void;
+  /** A press held still — fires once, and the press carries on */
+  onLongPress(p: TrackedPointer): void;
+}
+
+const LONG_PRESS_MS = 500;
+/** Movement (px) that turns a press into a drag, cancelling taps and long presses */
+const MOVE_TOLERANCE = 10;
+/** Both fingers must land and lift within this window to count as a tap */
+const TAP_MS = 300;
+
+export class PointerGestures {
+  private pointers = new Map<number, TrackedPointer>();
+  private longPress = 0;
+  private pinchDistance = 0;
+  /** Set while two fingers could still turn out to be a tap */
+  private tapCandidate: { time: number; x: number; y: number } | null = null;
+
+  constructor(private element: HTMLElement, private callbacks: GestureCallbacks) {
+    element.addEventListener('pointerdown', (e) => this.down(e));
+    element.addEventListener('pointermove', (e) => this.move(e));
+    element.addEventListener('pointerup', (e) => this.up(e));
+    element.addEventListener('pointercancel', (e) => this.up(e));
+    element.addEventListener('pointerleave', (e) => this.leave(e));
+  }
+
+  /** Pointers currently pressed */
+  get pressedCount(): number {
+    let n = 0;
+    for (const p of this.pointers.values()) if (p.pressed) n++;
+    return n;
+  }
+
+  private track(e: PointerEvent): TrackedPointer {
+    let p = this.pointers.get(e.pointerId);
+    if (!p) {
+      p = {
+        id: e.pointerId,
+        type: e.pointerType,
+        x: e.clientX,
+        y: e.clientY,
+        pressed: false,
+        button: 0,
+        startX: e.clientX,
+        startY: e.clientY,
+        startTime: e.timeStamp,
+      };
+      this.pointers.set(e.pointerId, p);
+    }
+    p.x = e.clientX;
+    p.y = e.clientY;
+    return p;
+  }
+
+  private touches(): TrackedPointer[] {
+    return [...this.pointers.values()].filter((p) => p.pressed && p.type === 'touch');
+  }
+
+  private down(e: PointerEvent) {
+    const p = this.track(e);
+    p.pressed = true;
+    p.button = e.button;
+    p.startX = e.clientX;
+    p.startY = e.clientY;
+    p.startTime = e.timeStamp;
+    this.element.setPointerCapture(e.pointerId);
+
+    clearTimeout(this.longPress);
+    const touches = this.touches();
+    if (touches.length === 2) {
+      const [a, b] = touches;
+      this.pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+      this.tapCandidate = e.timeStamp - a.startTime < TAP_MS && e.timeStamp - b.startTime < TAP_MS
+        ? { time: e.timeStamp, x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+        : null;
+    } else {
+      this.tapCandidate = null;
+      if (touches.length < 2) {
+        this.longPress = window.setTimeout(() => {
+          if (p.pressed && this.pressedCount === 1) this.callbacks.onLongPress(p);
+        }, LONG_PRESS_MS);
+      }
+    }
+    this.callbacks.onDown(p, e);
+  }
+
+  private move(e: PointerEvent) {
+    const p = this.track(e);
+    if (p.pressed && Math.hypot(p.x - p.startX, p.y - p.startY) > MOVE_TOLERANCE) {
+      clearTimeout(this.longPress);
+      this.tapCandidate = null;
+    }
+
+    const touches = this.touches();
+    if (touches.length === 2 && touches.includes(p)) {
+      const [a, b] = touches;
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (this.pinchDistance > 0 && distance > 0) this.callbacks.onPinch(distance / this.pinchDistance);
+      this.pinchDistance = distance;
+    }
+    this.callbacks.onMove(p, e);
+  }
+
+  private up(e: PointerEvent) {
+    const p = this.pointers.get(e.pointerId);
+    if (!p) return;
+    clearTimeout(this.longPress);
+
+    // A two-finger tap completes when the second finger lifts in time
+    const tap = this.tapCandidate;
+    if (tap && p.type === 'touch' && this.touches().length === 1) {
+      if (e.timeStamp - tap.time < TAP_MS) this.callbacks.onTwoFingerTap(tap.x, tap.y);
+      this.tapCandidate = null;
+    }
+    this.pinchDistance = 0;
+
+    if (p.pressed) {
+      p.pressed = false;
+      this.callbacks.onUp(p, e);
+    }
+    // Only a mouse hovers; anything else is gone once it lifts
+    if (p.type !== 'mouse' || e.type === 'pointercancel') this.remove(p);
+  }
+
+  private leave(e: PointerEvent) {
+    const p = this.pointers.get(e.pointerId);
+    // Captured presses keep going outside the element
+    if (p && !p.pressed) this.remove(p);
+  }
+
+  private remove(p: TrackedPointer) {
+    this.pointers.delete(p.id);
+    this.callbacks.onLeave(p);
+  }
+}
@@ -0,0 +1,248 @@
+// ─── Post Stack ───────────────────────────────────────────
+// The composer chain, driven by the mode in effect: render, trails, bloom,
+// chromatic aberration, color grade, vignette and film grain. Each effect
+// is a separate pass that joins the chain when its amount rises above zero
+// and leaves it when it falls back, so an effect that is off costs nothing.
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import type { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { TrailPass } from './trail-pass.ts';
+import { LUT_SIZE, bakeGrade } from './color-grades.ts';
+import type { Mode } from './modes.ts';
+
+const VERT = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// `uFrame` places this render within the full frame (offset and size in
+// uv), so a snapshot tile centers its effects on the whole picture
+
+// Channels split radially, more towards the edges
+const ABERRATION_FRAG = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  uniform float uAmount;
+  uniform vec4 uFrame;
+  varying vec2 vUv;
+
+  void main() {
+    vec2 full = uFrame.xy + vUv * uFrame.zw;
+    vec2 offset = (full - 0.5) * uAmount * 0.012 / uFrame.zw;
+    vec4 c = texture2D(tDiffuse, vUv);
+    c.r = texture2D(tDiffuse, vUv + offset).r;
+    c.b = texture2D(tDiffuse, vUv - offset).b;
+    gl_FragColor = c;
+  }
+`;
+
+// Two looks at once, so a grade can crossfade into another during a mode change
+const GRADE_FRAG = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  uniform sampler3D uLutFrom;
+  uniform sampler3D uLutTo;
+  uniform float uFrom;
+  uniform float uTo;
+  uniform float uBlend;
+  varying vec2 vUv;
+
+  vec3 lookup(sampler3D lut, vec3 c) {
+    // Sample texel centers so the ends of the table aren't blended with the border
+    return texture(lut, clamp(c, 0.0, 1.0) * ${((LUT_SIZE - 1) / LUT_SIZE).toFixed(6)} + ${(0.5 / LUT_SIZE).toFixed(6)}).rgb;
+  }
+
+  void main() {
+    vec4 c = texture2D(tDiffuse, vUv);
+    vec3 from = mix(c.rgb, lookup(uLutFrom, c.rgb), uFrom);
+    vec3 to = mix(c.rgb, lookup(uLutTo, c.rgb), uTo);
+    gl_FragColor = vec4(mix(from, to, uBlend), c.a);
+  }
+`;
+
+const VIGNETTE_FRAG = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  uniform float uAmount;
+  uniform float uAspect;
+  uniform vec4 uFrame;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 c = texture2D(tDiffuse, vUv);
+    vec2 full = uFrame.xy + vUv * uFrame.zw;
+    float d = length((full - 0.5) * vec2(uAspect, 1.0)) / length(vec2(uAspect, 1.0) * 0.5);
+    c.rgb *= 1.0 - uAmount * smoothstep(0.35, 1.0, d);
+    gl_FragColor = c;
+  }
+`;
+
+// Grain sits mostly on lit areas — solid black stays clean
+const GRAIN_FRAG = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  uniform float uAmount;
+  uniform float uTime;
+  varying vec2 vUv;
+
+  float hash(vec2 p) {
+    vec3 q = fract(vec3(p.xyx) * 0.1031);
+    q += dot(q, q.yzx + 33.33);
+    return fract((q.x + q.y) * q.z);
+  }
+
+  void main() {
+    vec4 c = texture2D(tDiffuse, vUv);
+    float n = hash(gl_FragCoord.xy + fract(uTime * 7.13) * 1000.0) - 0.5;
+    c.rgb += n * uAmount * (0.25 + c.rgb);
+    gl_FragColor = c;
+  }
+`;
+
+/** Amounts at or below this count as off */
+const OFF = 0.001;
+
+function effect(fragmentShader: string, uniforms: Record<string, THREE.IUniform>): ShaderPass {
+  return new ShaderPass({ uniforms: { tDiffuse: { value: null }, ...uniforms }, vertexShader: VERT, fragmentShader });
+}
+
+export class PostStack {
+  readonly composer: EffectComposer;
+  readonly bloom: UnrealBloomPass;
+  readonly trails: TrailPass;
+
+  /** Shared by the passes that work in full-frame coordinates */
+  private frame = new THREE.Vector4(0, 0, 1, 1);
+  private aberration = effect(ABERRATION_FRAG, { uAmount: { value: 0 }, uFrame: { value: this.frame } });
+  private grade = effect(GRADE_FRAG, {
+    uLutFrom: { value: null },
+    uLutTo: { value: null },
+    uFrom: { value: 0 },
+    uTo: { value: 0 },
+    uBlend: { value: 1 },
+  });
+  private vignette = effect(VIGNETTE_FRAG, { uAmount: { value: 0 }, uAspect: { value: 1 }, uFrame: { value: this.frame } });
+  private grain = effect(GRAIN_FRAG, { uAmount: { value: 0 }, uTime: { value: 0 } });
+  /** Optional passes in chain order, each with the test for whether it's needed */
+  private chain: [Pass, (m: Mode, grade: number) => boolean][];
+  private luts = new Map<string, THREE.Data3DTexture>();
+  private bloomSize = new THREE.Vector2();
+  private time = 0;
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera, bloomStrength: number) {
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(scene, camera));
+    this.trails = new TrailPass(window.innerWidth, window.innerHeight);
+    this.bloom = new UnrealBloomPass(new THREE.Vector2(window.innerWidth, window.innerHeight), bloomStrength, 0.5, 0.15);
+
+    // Trails go before bloom so the streaks glow too
+    this.chain = [
+      [this.trails, (m) => m.trail > 0.01],
+      [this.bloom, (m) => m.bloom > OFF],
+      [this.aberration, (m) => m.aberration > OFF],
+      [this.grade, (_, grade) => grade > OFF],
+      [this.vignette, (m) => m.vignette > OFF],
+      [this.grain, (m) => m.grain > OFF],
+    ];
+  }
+
+  /**
+   * Sizes the canvas-sized passes. Bloom blurs at `bloomScale` of that
+   * resolution — the quality governor's lever.
+   */
+  setSize(width: number, height: number, pixelRatio: number, bloomScale: number) {
+    this.composer.setPixelRatio(pixelRatio);
+    this.composer.setSize(width, height);
+    this.bloomSize.set(Math.round(width * pixelRatio * bloomScale), Math.round(height * pixelRatio * bloomScale));
+    this.bloom.setSize(this.bloomSize.x, this.bloomSize.y);
+    this.setFrame(0, 0, 1, 1, width / height);
+  }
+
+  /**
+   * Renders only part of a larger frame: `x`, `y` (from the bottom left)
+   * and the size are in the full frame's uv units, `aspect` is its width
+   * over height. `setSize` goes back to the whole canvas.
+   */
+  setFrame(x: number, y: number, width: number, height: number, aspect: number) {
+    this.frame.set(x, y, width, height);
+    this.vignette.uniforms.uAspect.value = aspect;
+  }
+
+  /**
+   * Applies the mode in effect. `m` is the blended mode; grades can't be
+   * lerped by name, so they crossfade from `from` to `to` by `blend` instead.
+   */
+  update(m: Mode, from: Mode, to: Mode, blend: number, dt: number) {
+    this.time += dt;
+    this.trails.length = m.trail;
+    this.trails.fade = m.trailFade;
+    this.bloom.strength = m.bloom;
+    this.bloom.radius = m.bloomRadius;
+    this.bloom.threshold = m.bloomThreshold;
+    this.aberration.uniforms.uAmount.value = m.aberration;
+    this.vignette.uniforms.uAmount.value = m.vignette;
+    this.grain.uniforms.uAmount.value = m.grain;
+    this.grain.uniforms.uTime.value = this.time;
+
+    const g = this.grade.uniforms;
+    g.uLutFrom.value = this.lut(from.grade);
+    g.uLutTo.value = this.lut(to.grade);
+    g.uFrom.value = from.gradeAmount;
+    g.uTo.value = to.gradeAmount;
+    g.uBlend.value = blend;
+    const grade = from.gradeAmount + (to.gradeAmount - from.gradeAmount) * blend;
+
+    this.sync(m, from.grade === 'none' && to.grade === 'none' ? 0 : grade);
+  }
+
+  /** Takes the trails out until the next update, which starts them afresh */
+  clearTrails() {
+    this.detach(this.trails);
+  }
+
+  render() {
+    this.composer.render();
+  }
+
+  /** Adds and removes passes so the chain holds exactly those needed */
+  private sync(m: Mode, grade: number) {
+    const { passes } = this.composer;
+    let index = 1;
+    for (const [pass, needed] of this.chain) {
+      const present = passes.includes(pass);
+      if (!needed(m, grade)) {
+        if (present) this.detach(pass);
+        continue;
+      }
+      if (!present) {
+        this.composer.insertPass(pass, index);
+        if (pass === this.trails) this.trails.reset();
+        // Inserting sizes a pass to the canvas; bloom runs smaller than that
+        if (pass === this.bloom) this.bloom.setSize(this.bloomSize.x, this.bloomSize.y);
+      }
+      index++;
+    }
+  }
+
+  private detach(pass: Pass) {
+    if (this.composer.passes.includes(pass)) this.composer.removePass(pass);
+  }
+
+  private lut(name: string): THREE.Data3DTexture {
+    let texture = this.luts.get(name);
+    if (!texture) {
+      texture = new THREE.Data3DTexture(bakeGrade(name), LUT_SIZE, LUT_SIZE, LUT_SIZE);
+      texture.minFilter = THREE.LinearFilter;
+      texture.magFilter = THREE.LinearFilter;
+      texture.wrapS = texture.wrapT = texture.wrapR = THREE.ClampToEdgeWrapping;
+      texture.unpackAlignment = 1;
+      texture.needsUpdate = true;
+      this.luts.set(name, texture);
+    }
+    return texture;
+  }
+}
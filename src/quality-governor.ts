@@ -0,0 +1,103 @@
+// ─── Quality Governor ─────────────────────────────────────
+// Watches frame times and steps quality down when frames run long and back
+// up when there's headroom. Stepping down is quick, stepping up slow, and
+// every step down makes the next step up wait longer, so the level settles
+// instead of oscillating. No DOM dependency: feed it frame durations.
+
+export interface QualityLevel {
+  name: string;
+  /** Share of the particle capacity that is simulated and drawn */
+  particles: number;
+  /** Upper bound on the renderer's pixel ratio (the device's still caps it) */
+  pixelRatio: number;
+  /** Bloom resolution relative to the default (which blurs from half the canvas size) */
+  bloom: number;
+}
+
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  { name: 'low', particles: 0.25, pixelRatio: 0.75, bloom: 0.35 },
+  { name: 'medium', particles: 0.45, pixelRatio: 1, bloom: 0.5 },
+  { name: 'high', particles: 0.7, pixelRatio: 1.5, bloom: 0.75 },
+  { name: 'ultra', particles: 1, pixelRatio: 2, bloom: 1 },
+];
+
+/** Smoothed frame time (ms) above which quality drops — about 45 fps */
+const SLOW_MS = 22;
+/** …and below which it may rise — a steady 60 fps with a little slack */
+const FAST_MS = 18;
+/** Seconds a condition must hold before acting on it */
+const DOWN_AFTER = 1.5;
+const UP_AFTER = 4;
+/** Extra wait before stepping up, doubled by each step down, capped */
+const UP_BACKOFF_MAX = 60;
+/** Frames longer than this (tab switches, GC pauses, dialogs) are ignored */
+const OUTLIER_MS = 250;
+
+export class QualityGovernor {
+  /** Manual level, or null to let the governor decide */
+  override: number | null = null;
+
+  private _level: number;
+  private average = 1000 / 60;
+  private slowFor = 0;
+  private fastFor = 0;
+  private backoff = 0;
+
+  constructor(initialLevel = QUALITY_LEVELS.length - 1) {
+    this._level = clampLevel(initialLevel);
+  }
+
+  /** The level in effect — the override when set */
+  get level(): number {
+    return this.override ?? this._level;
+  }
+
+  /** Smoothed frame time in ms */
+  get frameTime(): number {
+    return this.average;
+  }
+
+  /** Records one frame. Returns true when the effective level changed. */
+  sample(frameMs: number): boolean {
+    if (frameMs <= 0 || frameMs > OUTLIER_MS) return false;
+    const seconds = frameMs / 1000;
+    this.average += (frameMs - this.average) * 0.05;
+
+    this.slowFor = this.average > SLOW_MS ? this.slowFor + seconds : 0;
+    this.fastFor = this.average < FAST_MS ? this.fastFor + seconds : 0;
+    if (this.override !== null) return false;
+
+    if (this.slowFor >= DOWN_AFTER && this._level > 0) {
+      this._level--;
+      this.backoff = Math.min(UP_BACKOFF_MAX, Math.max(UP_AFTER, this.backoff * 2));
+      this.settle();
+      return true;
+    }
+    if (this.fastFor >= UP_AFTER + this.backoff && this._level < QUALITY_LEVELS.length - 1) {
+      this._level++;
+      this.settle();
+      return true;
+    }
+    return false;
+  }
+
+  /** Pins a level (or releases it with null). Returns true when the effective level changed. */
+  setOverride(level: number | null): boolean {
+    const before = this.level;
+    this.override = level === null ? null : clampLevel(level);
+    // Automatic control resumes from wherever the user left it
+    if (level === null) this._level = before;
+    this.settle();
+    return this.level !== before;
+  }
+
+  /** Restarts the timers, giving the new level time to show its frame times */
+  private settle() {
+    this.slowFor = 0;
+    this.fastFor = 0;
+  }
+}
+
+function clampLevel(level: number): number {
+  return Math.max(0, Math.min(QUALITY_LEVELS.length - 1, Math.round(level)));
+}
@@ -0,0 +1,28 @@
+// ─── Seeded Randomness ────────────────────────────────────
+// Every random draw in the simulation and sound engine goes through a
+// `Random` so a scene can be replayed exactly from its seed.
+
+/** Returns a float in [0, 1), like Math.random */
+export type Random = () => number;
+
+/** Mulberry32 — tiny, fast 32-bit PRNG with good enough distribution for visuals */
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fresh non-deterministic seed for sessions that don't ask for one */
+export function randomSeed(): number {
+  return (Math.random() * 4294967296) >>> 0;
+}
+
+/** Derives an independent stream so consumers don't perturb each other's sequence */
+export function deriveSeed(seed: number, salt: number): number {
+  return (Math.imul(seed ^ salt, 0x9e3779b1) ^ (seed >>> 16)) >>> 0;
+}
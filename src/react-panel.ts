@@ -0,0 +1,82 @@
+// ─── React Panel ──────────────────────────────────────────
+// Chooses what the visuals listen to and shows live band meters. How
+// strongly each mode reacts is set per mode in the mode editor.
+
+import type { AudioFeatures } from './audio-features.ts';
+import type { AudioSourceKind } from './audio-input.ts';
+
+export interface ReactPanelCallbacks {
+  onSource(kind: AudioSourceKind | null): void;
+  onFile(file: File): void;
+}
+
+const METERS = ['bass', 'mid', 'treble', 'level'] as const;
+
+export class ReactPanel {
+  private buttons: HTMLButtonElement[];
+  private bars = new Map<(typeof METERS)[number], HTMLElement>();
+  private statusEl: HTMLElement;
+
+  constructor(private root: HTMLElement, callbacks: ReactPanelCallbacks) {
+    this.statusEl = root.querySelector('.editor-status')!;
+    this.buttons = Array.from(root.querySelectorAll<HTMLButtonElement>('.react-sources button'));
+
+    const fileInput = root.querySelector<HTMLInputElement>('.react-file')!;
+    this.buttons.forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const source = btn.dataset.source!;
+        if (source === 'file') fileInput.click();
+        else callbacks.onSource(source === 'off' ? null : (source as AudioSourceKind));
+      });
+    });
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) callbacks.onFile(file);
+      fileInput.value = '';
+    });
+
+    root.querySelector('.react-meters')!.append(
+      ...METERS.map((name) => {
+        const row = document.createElement('div');
+        row.className = 'react-meter';
+        const label = document.createElement('span');
+        label.textContent = name;
+        const bar = document.createElement('div');
+        bar.className = 'react-bar';
+        this.bars.set(name, bar);
+        row.append(label, bar);
+        return row;
+      })
+    );
+  }
+
+  get visible(): boolean {
+    return !this.root.hidden;
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+
+  /** Highlights the source in use */
+  setSource(kind: AudioSourceKind | null) {
+    this.buttons.forEach((btn) => {
+      btn.classList.toggle('active', btn.dataset.source === (kind ?? 'off'));
+    });
+  }
+
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+
+  /** Updates the meters; pass null to empty them */
+  showFeatures(features: AudioFeatures | null) {
+    if (!this.visible) return;
+    for (const name of METERS) {
+      const bar = this.bars.get(name)!;
+      bar.style.transform = `scaleX(${features ? features[name] : 0})`;
+      if (name === 'level') bar.classList.toggle('onset', features?.onset ?? false);
+    }
+  }
+}
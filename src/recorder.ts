@@ -0,0 +1,80 @@
+// ─── Recorder ─────────────────────────────────────────────
+// Records the canvas (post-processed, as shown) and the ambient sound into
+// a WebM with MediaRecorder.
+
+import type { AmbientSound } from './audio.ts';
+
+const FRAME_RATE = 60;
+const VIDEO_BITS_PER_SECOND = 16_000_000;
+
+/** Preferred container/codec pairs, best first */
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private tap: MediaStreamAudioDestinationNode | null = null;
+  private startedAt = 0;
+
+  constructor(private canvas: HTMLCanvasElement, private sound: AmbientSound) {}
+
+  static get supported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+  }
+
+  get recording() {
+    return this.recorder !== null;
+  }
+
+  /** Seconds since recording started */
+  get elapsed(): number {
+    return this.recording ? (performance.now() - this.startedAt) / 1000 : 0;
+  }
+
+  start() {
+    if (this.recorder) return;
+    const stream = this.canvas.captureStream(FRAME_RATE);
+
+    // Sound is only included if it's running when recording starts
+    const ctx = this.sound.context;
+    if (ctx instanceof AudioContext) {
+      this.tap = ctx.createMediaStreamDestination();
+      this.sound.connectTap(this.tap);
+      this.tap.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+    }
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    this.chunks = [];
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(1000);
+    this.startedAt = performance.now();
+  }
+
+  /** Resolves with the finished video; rejects if the recorder failed */
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error('not recording'));
+    this.recorder = null;
+
+    return new Promise((resolve, reject) => {
+      recorder.onerror = (e) => reject((e as ErrorEvent).error ?? new Error('the recorder stopped with an error'));
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        if (this.tap) {
+          this.sound.disconnectTap(this.tap);
+          this.tap = null;
+        }
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+}
@@ -0,0 +1,187 @@
+// ─── Scene State ──────────────────────────────────────────
+// Serializes what makes a scene reproducible (mode, color or palette,
+// camera, sound, seed, placed sources) to and from the URL hash, e.g.
+// `#mode=aurora&color=0.4&zoom=35&view=0.6_0.2_0_0_0&src=v_-12_4_0_1_14_1`.
+
+import type { Mode } from './modes.ts';
+import { BOUNDS, MAX_DEPTH } from './simulation.ts';
+import { clampPose, isDefaultPose, wrapAngle, type CameraPose } from './camera-rig.ts';
+import {
+  MAX_SOURCES,
+  SOURCE_KINDS,
+  clampSourceValue,
+  type FieldSource,
+} from './field-sources.ts';
+import {
+  COLOR_SOURCES,
+  MAX_STOPS,
+  clampWeight,
+  type Palette,
+  type PaletteStop,
+} from './palettes.ts';
+
+export interface SceneState {
+  mode: number;
+  colorOverride: number | null;
+  /** Takes over from the particles' own colors while set */
+  palette: Palette | null;
+  camera: CameraPose;
+  sound: boolean;
+  seed: number;
+  sources: FieldSource[];
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+/** Hues wrap, so 1.25 and -0.75 both mean 0.25 */
+function wrapHue(h: number): number {
+  return ((h % 1) + 1) % 1;
+}
+
+function parseNumber(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+// A source is `kind_x_y_z_strength_radius_falloff[_lifetime]`, kind being
+// the first letter (a, r, v). Repeated `src` keys hold one source each.
+function round(n: number, places: number): string {
+  return String(Math.round(n * 10 ** places) / 10 ** places);
+}
+
+function encodeSource(s: FieldSource): string {
+  const parts = [
+    s.kind[0],
+    round(s.x, 1),
+    round(s.y, 1),
+    round(s.z, 1),
+    round(s.strength, 2),
+    round(s.radius, 1),
+    round(s.falloff, 2),
+  ];
+  if (s.lifetime !== null) parts.push(round(s.lifetime, 1));
+  return parts.join('_');
+}
+
+function decodeSource(raw: string): FieldSource | null {
+  const [letter, ...rest] = raw.split('_');
+  const kind = SOURCE_KINDS.find((k) => k[0] === letter);
+  if (!kind || rest.length < 6 || rest.length > 7) return null;
+  const nums = rest.map(parseNumber);
+  if (nums.some((n) => n === null)) return null;
+  const [x, y, z, strength, radius, falloff, lifetime] = nums as number[];
+  return {
+    kind,
+    x: clamp(x, -BOUNDS, BOUNDS),
+    y: clamp(y, -BOUNDS, BOUNDS),
+    z: clamp(z, -MAX_DEPTH, MAX_DEPTH),
+    strength: clampSourceValue('strength', strength),
+    radius: clampSourceValue('radius', radius),
+    falloff: clampSourceValue('falloff', falloff),
+    lifetime: lifetime === undefined ? null : clampSourceValue('lifetime', lifetime),
+  };
+}
+
+// The orbit is `yaw_pitch_x_y_z` — angles in radians, then the point
+// looked at. Left out while the camera faces the origin head-on.
+function encodeView(pose: CameraPose): string {
+  return [round(wrapAngle(pose.yaw), 3), round(pose.pitch, 3), round(pose.x, 1), round(pose.y, 1), round(pose.z, 1)].join('_');
+}
+
+function decodeView(raw: string, pose: CameraPose): CameraPose {
+  const nums = raw.split('_').map(parseNumber);
+  if (nums.length !== 5 || nums.some((n) => n === null)) return pose;
+  const [yaw, pitch, x, y, z] = nums as number[];
+  return clampPose({ ...pose, yaw, pitch, x, y, z });
+}
+
+// A palette is `rrggbb-weight_rrggbb-weight_…` plus `by=<source>`
+function encodePalette(stops: PaletteStop[]): string {
+  return stops.map((s) => `${s.color.slice(1).toLowerCase()}-${round(s.weight, 2)}`).join('_');
+}
+
+function decodePalette(raw: string, by: string | null): Palette | null {
+  const stops: PaletteStop[] = [];
+  for (const part of raw.split('_').slice(0, MAX_STOPS)) {
+    const [hex, w] = part.split('-');
+    if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+    const weight = w === undefined ? 1 : parseNumber(w);
+    if (weight === null) return null;
+    stops.push({ color: `#${hex.toLowerCase()}`, weight: clampWeight(weight) });
+  }
+  if (stops.length === 0) return null;
+  const source = COLOR_SOURCES.find((s) => s === by) ?? 'random';
+  return { stops, source };
+}
+
+export function encodeSceneState(state: SceneState, modes: Mode[]): string {
+  const params = new URLSearchParams();
+  params.set('mode', modes[state.mode]?.name ?? String(state.mode));
+  params.set('color', state.colorOverride === null ? 'auto' : state.colorOverride.toFixed(3));
+  if (state.palette) {
+    params.set('palette', encodePalette(state.palette.stops));
+    params.set('by', state.palette.source);
+  }
+  params.set('zoom', String(Math.round(state.camera.distance)));
+  if (!isDefaultPose(state.camera)) params.set('view', encodeView(state.camera));
+  params.set('sound', state.sound ? '1' : '0');
+  params.set('seed', String(state.seed >>> 0));
+  for (const source of state.sources) params.append('src', encodeSource(source));
+  return params.toString();
+}
+
+/**
+ * Reads a URL hash on top of `defaults`. Unknown keys are ignored and any
+ * malformed or out-of-range value falls back to (or is clamped towards)
+ * the default, so a hand-edited link never breaks startup.
+ */
+export function decodeSceneState(hash: string, modes: Mode[], defaults: SceneState): SceneState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state = { ...defaults };
+
+  const mode = params.get('mode');
+  if (mode !== null) {
+    const byName = modes.findIndex((m) => m.name === mode.toLowerCase());
+    const byIndex = parseNumber(mode);
+    if (byName >= 0) state.mode = byName;
+    else if (byIndex !== null && Number.isInteger(byIndex) && byIndex >= 0 && byIndex < modes.length) {
+      state.mode = byIndex;
+    }
+  }
+
+  const color = params.get('color');
+  if (color === 'auto') {
+    state.colorOverride = null;
+  } else {
+    const hue = parseNumber(color);
+    if (hue !== null) state.colorOverride = wrapHue(hue);
+  }
+
+  // Like sources, a hash without a palette means none
+  const palette = params.get('palette');
+  state.palette = palette === null ? null : decodePalette(palette, params.get('by'));
+
+  const zoom = parseNumber(params.get('zoom'));
+  if (zoom !== null) state.camera = clampPose({ ...state.camera, distance: zoom });
+  const view = params.get('view');
+  if (view !== null) state.camera = decodeView(view, state.camera);
+
+  const sound = params.get('sound');
+  if (sound === '1' || sound === 'on') state.sound = true;
+  else if (sound === '0' || sound === 'off') state.sound = false;
+
+  const seed = parseNumber(params.get('seed'));
+  if (seed !== null && Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff) state.seed = seed;
+
+  // Sources aren't merged with the defaults — a hash without any means none
+  state.sources = params
+    .getAll('src')
+    .map(decodeSource)
+    .filter((s): s is FieldSource => s !== null)
+    .slice(0, MAX_SOURCES);
+
+  return state;
+}
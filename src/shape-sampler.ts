@@ -0,0 +1,93 @@
+// ─── Shape Sampler ────────────────────────────────────────
+// Turns typed text and SVG drawings into morph targets: render to an
+// offscreen canvas, then scatter points over the covered pixels. Needs a
+// DOM, so it runs on the main thread and hands the points to the host.
+
+import type { Random } from './random.ts';
+
+/** Widest a sampled shape may be, in world units */
+const MAX_WIDTH = 64;
+const MAX_HEIGHT = 40;
+/** Thickness of the sampled slab along Z */
+const DEPTH = 1.5;
+const TEXT_SIZE = 160;
+const SVG_SIZE = 512;
+
+/** World units per pixel that fit a `width`×`height` picture in the field */
+export function fitScale(width: number, height: number): number {
+  return Math.min(MAX_WIDTH / width, MAX_HEIGHT / height);
+}
+
+function createContext(width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  return canvas.getContext('2d', { willReadFrequently: true })!;
+}
+
+/**
+ * `count` points spread evenly over every pixel with alpha above half,
+ * centered and scaled to fit the field. Returns an empty array for a
+ * blank canvas.
+ */
+export function sampleCanvas(ctx: CanvasRenderingContext2D, count: number, random: Random): Float32Array {
+  const { width, height } = ctx.canvas;
+  const data = ctx.getImageData(0, 0, width, height).data;
+
+  const covered: number[] = [];
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] > 127) covered.push(p);
+  }
+  if (covered.length === 0) return new Float32Array(0);
+
+  const scale = fitScale(width, height);
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const p = covered[Math.floor(random() * covered.length)];
+    const x = (p % width) + random();
+    const y = Math.floor(p / width) + random();
+    out[i * 3] = (x - width / 2) * scale;
+    out[i * 3 + 1] = (height / 2 - y) * scale;
+    out[i * 3 + 2] = (random() - 0.5) * DEPTH;
+  }
+  return out;
+}
+
+/** Samples `text` set in a heavy sans-serif; newlines start new lines */
+export function sampleText(text: string, count: number, random: Random): Float32Array {
+  const lines = text.split('\n');
+  const font = `700 ${TEXT_SIZE}px 'Helvetica Neue', Helvetica, Arial, sans-serif`;
+  const lineHeight = TEXT_SIZE * 1.1;
+  const pad = TEXT_SIZE * 0.1;
+
+  const measure = createContext(1, 1);
+  measure.font = font;
+  const width = Math.max(...lines.map((l) => measure.measureText(l).width)) + pad * 2;
+
+  const ctx = createContext(width, lineHeight * lines.length + pad * 2);
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, ctx.canvas.width / 2, pad + lineHeight * (i + 0.5)));
+  return sampleCanvas(ctx, count, random);
+}
+
+/** Renders an SVG document and samples what it paints. Rejects if it can't be drawn. */
+export async function sampleSvg(svg: string, count: number, random: Random): Promise<Float32Array> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    // SVGs without width/height report 0 in some browsers — assume square
+    const aspect = img.naturalWidth > 0 && img.naturalHeight > 0 ? img.naturalWidth / img.naturalHeight : 1;
+    const w = aspect >= 1 ? SVG_SIZE : SVG_SIZE * aspect;
+    const h = aspect >= 1 ? SVG_SIZE / aspect : SVG_SIZE;
+    const ctx = createContext(w, h);
+    ctx.drawImage(img, 0, 0, ctx.canvas.width, ctx.canvas.height);
+    return sampleCanvas(ctx, count, random);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,82 @@
+// ─── Shape Library ────────────────────────────────────────
+// Built-in morph targets as flat xyz point clouds. Pure math — runs
+// anywhere the simulation does, so the default target needs no DOM.
+
+import type { Random } from './random.ts';
+
+export type ShapeName = 'sphere' | 'torus' | 'helix' | 'logo';
+
+export const SHAPES: ShapeName[] = ['sphere', 'torus', 'helix', 'logo'];
+
+type Sampler = (random: Random, out: Float32Array, i3: number) => void;
+
+function gaussian(random: Random): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+const SAMPLERS: Record<ShapeName, Sampler> = {
+  sphere(random, out, i3) {
+    const theta = random() * Math.PI * 2;
+    const z = random() * 2 - 1;
+    const ring = Math.sqrt(1 - z * z);
+    const r = 18 + gaussian(random) * 0.3;
+    out[i3] = r * ring * Math.cos(theta);
+    out[i3 + 1] = r * ring * Math.sin(theta);
+    out[i3 + 2] = r * z;
+  },
+
+  torus(random, out, i3) {
+    const R = 16, r = 5;
+    // Rejection keeps density even — the outer rim has more surface
+    let phi: number;
+    do phi = random() * Math.PI * 2;
+    while (random() > (R + r * Math.cos(phi)) / (R + r));
+    const theta = random() * Math.PI * 2;
+    const ring = R + r * Math.cos(phi);
+    out[i3] = ring * Math.cos(theta);
+    out[i3 + 1] = r * Math.sin(phi);
+    out[i3 + 2] = ring * Math.sin(theta);
+  },
+
+  helix(random, out, i3) {
+    const turns = 3.5, radius = 8, height = 44;
+    const t = random();
+    const angle = t * turns * Math.PI * 2;
+    const y = (t - 0.5) * height;
+    if (random() < 0.15) {
+      // Rungs between the two strands, every quarter turn
+      const rung = Math.round(t * turns * 4) / (turns * 4);
+      const a = rung * turns * Math.PI * 2;
+      const s = random() * 2 - 1;
+      out[i3] = Math.cos(a) * radius * s;
+      out[i3 + 1] = (rung - 0.5) * height;
+      out[i3 + 2] = Math.sin(a) * radius * s;
+      return;
+    }
+    const strand = random() < 0.5 ? 0 : Math.PI;
+    out[i3] = Math.cos(angle + strand) * radius + gaussian(random) * 0.35;
+    out[i3 + 1] = y + gaussian(random) * 0.35;
+    out[i3 + 2] = Math.sin(angle + strand) * radius + gaussian(random) * 0.35;
+  },
+
+  // The favicon's orb: bright core, soft glow and a faint halo ring
+  logo(random, out, i3) {
+    const u = random();
+    const theta = random() * Math.PI * 2;
+    let r: number;
+    if (u < 0.25) r = Math.abs(gaussian(random)) * 2.2;
+    else if (u < 0.7) r = Math.sqrt(random()) * 11;
+    else r = 18.5 + gaussian(random) * 0.5;
+    out[i3] = r * Math.cos(theta);
+    out[i3 + 1] = r * Math.sin(theta);
+    out[i3 + 2] = gaussian(random) * 0.6;
+  },
+};
+
+/** `count` points on `shape`, centered on the origin and ~40 units across */
+export function sampleShape(shape: ShapeName, count: number, random: Random): Float32Array {
+  const out = new Float32Array(count * 3);
+  const sample = SAMPLERS[shape];
+  for (let i = 0; i < count; i++) sample(random, out, i * 3);
+  return out;
+}
@@ -0,0 +1,89 @@
+// ─── Show Panel ───────────────────────────────────────────
+// Transport for the choreography timeline (play, stop, seek) and the show
+// itself as editable JSON, with import, export and a key button that adds
+// the current mode, color and camera at the playhead.
+
+export interface ShowPanelCallbacks {
+  onPlay(): void;
+  onStop(): void;
+  onSeek(seconds: number): void;
+  /** The edited JSON should replace the show */
+  onApply(json: string): void;
+  onKey(): void;
+  onImport(file: File): void;
+  onExport(): void;
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export class ShowPanel {
+  private playBtn: HTMLButtonElement;
+  private timeEl: HTMLElement;
+  private seekInput: HTMLInputElement;
+  private jsonInput: HTMLTextAreaElement;
+  private statusEl: HTMLElement;
+  private seeking = false;
+
+  constructor(private root: HTMLElement, callbacks: ShowPanelCallbacks) {
+    this.playBtn = root.querySelector('.show-play')!;
+    this.timeEl = root.querySelector('.show-time')!;
+    this.seekInput = root.querySelector('.show-seek')!;
+    this.jsonInput = root.querySelector('.show-json')!;
+    this.statusEl = root.querySelector('.editor-status')!;
+
+    this.playBtn.addEventListener('click', () => callbacks.onPlay());
+    root.querySelector('.show-stop')!.addEventListener('click', () => callbacks.onStop());
+    root.querySelector('.show-apply')!.addEventListener('click', () => callbacks.onApply(this.jsonInput.value));
+    root.querySelector('.show-key')!.addEventListener('click', () => callbacks.onKey());
+    root.querySelector('.show-export')!.addEventListener('click', () => callbacks.onExport());
+
+    // Dragging the playhead seeks live, with playback updates kept off it
+    // until the pointer is released or cancelled (or a keyboard seek changes it)
+    const endSeek = () => { this.seeking = false; };
+    this.seekInput.addEventListener('pointerdown', () => { this.seeking = true; });
+    this.seekInput.addEventListener('pointerup', endSeek);
+    this.seekInput.addEventListener('pointercancel', endSeek);
+    this.seekInput.addEventListener('change', endSeek);
+    this.seekInput.addEventListener('input', () => callbacks.onSeek(this.seekInput.valueAsNumber));
+
+    const fileInput = root.querySelector<HTMLInputElement>('.show-file')!;
+    root.querySelector('.show-import')!.addEventListener('click', () => fileInput.click());
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) callbacks.onImport(file);
+      fileInput.value = '';
+    });
+  }
+
+  get visible(): boolean {
+    return !this.root.hidden;
+  }
+
+  toggle(force?: boolean) {
+    this.root.hidden = !(force ?? this.root.hidden);
+  }
+
+  setShow(json: string) {
+    this.jsonInput.value = json;
+  }
+
+  setPlaying(on: boolean) {
+    this.playBtn.textContent = on ? 'pause' : 'play';
+    this.playBtn.classList.toggle('active', on);
+  }
+
+  setPosition(seconds: number, duration: number) {
+    if (!this.visible) return;
+    this.timeEl.textContent = `${formatTime(seconds)} / ${formatTime(duration)}`;
+    this.seekInput.max = String(duration);
+    if (!this.seeking) this.seekInput.value = String(seconds);
+  }
+
+  setStatus(text: string, isError = false) {
+    this.statusEl.textContent = text;
+    this.statusEl.classList.toggle('error', isError);
+  }
+}
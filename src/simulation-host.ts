@@ -0,0 +1,361 @@
+// ─── Simulation Host ──────────────────────────────────────
+// What the renderer talks to. Runs ParticleSimulation in a Worker with
+// SharedArrayBuffer double-buffering when the page is cross-origin
+// isolated, and in-thread otherwise (or if the worker fails to start).
+
+import { blendModes, type Mode } from './modes.ts';
+import { ParticleSimulation, type Modulation, type Pointer } from './simulation.ts';
+import type { FrameBuffers, FromWorker, ModeState, ToWorker } from './simulation-protocol.ts';
+import { ageSources, type FieldSource } from './field-sources.ts';
+
+export interface HostOptions {
+  seed: number;
+  modes: Mode[];
+  initialMode: number;
+  colorOverride: number | null;
+  sources?: FieldSource[];
+  activeCount?: number;
+}
+
+/** What changed in the buffers since the previous frame */
+export interface FrameUpdate {
+  appearanceChanged: boolean;
+  alphasChanged: boolean;
+  /** Particles are living out lifespans — ages and lifespans changed */
+  mortal: boolean;
+}
+
+export interface SimulationHost {
+  readonly count: number;
+  /** Particles simulated, from index 0 — see ParticleSimulation.activeCount */
+  activeCount: number;
+  readonly seed: number;
+  /** Every live pointer — add, remove and mutate in place between steps */
+  readonly pointers: Pointer[];
+  readonly modulation: Modulation;
+  /** Persistent field sources — mutate in place; expired ones are removed on step */
+  readonly sources: FieldSource[];
+  readonly currentMode: number;
+  readonly targetMode: number;
+  readonly modeBlend: number;
+  readonly blending: boolean;
+  /** Mean ½|v|² per particle in the latest frame */
+  readonly kineticEnergy: number;
+  colorOverride: number | null;
+
+  /** Latest frame — the arrays may be swapped between frames */
+  readonly positions: Float32Array;
+  readonly colors: Float32Array;
+  readonly sizes: Float32Array;
+  readonly alphas: Float32Array;
+  readonly speeds: Float32Array;
+  readonly ages: Float32Array;
+  readonly lifespans: Float32Array;
+  /** False until the first frame exists */
+  readonly ready: boolean;
+
+  setMode(index: number): boolean;
+  refreshColors(): void;
+  /** Pushes in-place edits of the modes array to wherever the physics runs */
+  syncModes(): void;
+  getActiveMode(): Mode;
+  /** Morph target as a flat xyz list — any length, see ParticleSimulation.setTargets */
+  setTargets(points: Float32Array, colors?: Float32Array | null): void;
+  /** Resolves with the number of particles hit */
+  burstAt(wx: number, wy: number, wz: number, push: boolean): Promise<number>;
+  /** Advances by `dt`. Returns null when no new frame is available yet. */
+  step(dt: number): FrameUpdate | null;
+}
+
+// ─── In-Thread ────────────────────────────────────────────
+export class LocalSimulation implements SimulationHost {
+  readonly ready = true;
+  private sim: ParticleSimulation;
+
+  constructor(count: number, options: HostOptions) {
+    this.sim = new ParticleSimulation(count, options);
+  }
+
+  get count() { return this.sim.count; }
+  get activeCount() { return this.sim.activeCount; }
+  set activeCount(n: number) { this.sim.activeCount = n; }
+  get seed() { return this.sim.seed; }
+  get pointers() { return this.sim.pointers; }
+  get modulation() { return this.sim.modulation; }
+  get sources() { return this.sim.sources; }
+  get currentMode() { return this.sim.currentMode; }
+  get targetMode() { return this.sim.targetMode; }
+  get modeBlend() { return this.sim.modeBlend; }
+  get blending() { return this.sim.blending; }
+  get kineticEnergy() { return this.sim.kineticEnergy; }
+  get colorOverride() { return this.sim.colorOverride; }
+  set colorOverride(hue: number | null) { this.sim.colorOverride = hue; }
+  get positions() { return this.sim.positions; }
+  get colors() { return this.sim.colors; }
+  get sizes() { return this.sim.sizes; }
+  get alphas() { return this.sim.alphas; }
+  get speeds() { return this.sim.speeds; }
+  get ages() { return this.sim.ages; }
+  get lifespans() { return this.sim.lifespans; }
+
+  setMode(index: number) { return this.sim.setMode(index); }
+  refreshColors() { this.sim.refreshColors(); }
+  syncModes() {} // shares the mode objects with the caller
+  getActiveMode() { return this.sim.getActiveMode(); }
+  setTargets(points: Float32Array, colors: Float32Array | null = null) { this.sim.setTargets(points, colors); }
+
+  burstAt(wx: number, wy: number, wz: number, push: boolean) {
+    return Promise.resolve(this.sim.burstAt(wx, wy, wz, push));
+  }
+
+  step(dt: number): FrameUpdate {
+    const appearanceChanged = this.sim.blending;
+    this.sim.step(dt);
+    return { appearanceChanged, alphasChanged: false, mortal: this.sim.mortal };
+  }
+}
+
+// ─── Worker ───────────────────────────────────────────────
+function sharedFrame(count: number): FrameBuffers {
+  const f32 = (n: number) => new Float32Array(new SharedArrayBuffer(n * 4));
+  return {
+    positions: f32(count * 3),
+    colors: f32(count * 3),
+    sizes: f32(count),
+    speeds: f32(count),
+    ages: f32(count),
+    lifespans: f32(count),
+  };
+}
+
+export class WorkerSimulation implements SimulationHost {
+  readonly count: number;
+  activeCount: number;
+  readonly seed: number;
+  readonly pointers: Pointer[] = [];
+  readonly modulation: Modulation = { swirl: 0, overrides: {} };
+  readonly sources: FieldSource[];
+  colorOverride: number | null;
+
+  private modes: Mode[];
+  private state: ModeState;
+  private energy = 0;
+  private worker: Worker;
+  private slots: [FrameBuffers, FrameBuffers];
+  private front: FrameBuffers;
+  private sharedAlphas: Float32Array;
+  private pending: Extract<FromWorker, { type: 'frame' }> | null = null;
+  private inFlight = false;
+  private pendingDt = 0;
+  private seq = 0;
+  private stateSeq = 0;
+  private firstFrame = true;
+  private bursts = new Map<number, (hits: number) => void>();
+  private nextBurstId = 0;
+  /** Last morph target, replayed into the fallback if the worker dies */
+  private targets: { points: Float32Array; colors: Float32Array | null } | null = null;
+  /** Set if the worker dies — everything is then delegated in-thread */
+  private local: LocalSimulation | null = null;
+
+  constructor(count: number, options: HostOptions) {
+    this.count = count;
+    this.activeCount = options.activeCount ?? count;
+    this.seed = options.seed;
+    this.modes = options.modes;
+    this.colorOverride = options.colorOverride;
+    this.sources = options.sources ?? [];
+    this.state = { currentMode: options.initialMode, targetMode: options.initialMode, modeBlend: 1 };
+    this.sharedAlphas = new Float32Array(count);
+    this.slots = [sharedFrame(count), sharedFrame(count)];
+    this.front = this.slots[0];
+
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<FromWorker>) => this.receive(e.data);
+    this.worker.onerror = (e) => {
+      console.warn('Simulation worker failed, continuing in-thread:', e.message);
+      this.fallBack();
+    };
+    this.post({
+      type: 'init',
+      count,
+      seed: options.seed,
+      modes: options.modes,
+      initialMode: options.initialMode,
+      colorOverride: options.colorOverride,
+      slots: this.slots,
+    });
+  }
+
+  get currentMode() { return this.local?.currentMode ?? this.state.currentMode; }
+  get targetMode() { return this.local?.targetMode ?? this.state.targetMode; }
+  get modeBlend() { return this.local?.modeBlend ?? this.state.modeBlend; }
+  get blending() { return this.modeBlend < 1; }
+  get kineticEnergy() { return this.local?.kineticEnergy ?? this.energy; }
+  get positions() { return this.local?.positions ?? this.front.positions; }
+  get colors() { return this.local?.colors ?? this.front.colors; }
+  get sizes() { return this.local?.sizes ?? this.front.sizes; }
+  get alphas() { return this.local?.alphas ?? this.sharedAlphas; }
+  get speeds() { return this.local?.speeds ?? this.front.speeds; }
+  get ages() { return this.local?.ages ?? this.front.ages; }
+  get lifespans() { return this.local?.lifespans ?? this.front.lifespans; }
+  get ready() { return this.local !== null || !this.firstFrame; }
+
+  setMode(index: number): boolean {
+    if (this.local) {
+      this.local.colorOverride = this.colorOverride;
+      return this.local.setMode(index);
+    }
+    const s = this.state;
+    if (index < 0 || index >= this.modes.length) return false;
+    if (index === s.currentMode && s.modeBlend >= 1) return false;
+    // Mirror the transition locally so the UI sees it before the worker answers
+    s.targetMode = index;
+    s.modeBlend = 0;
+    this.stateSeq = ++this.seq;
+    this.post({ type: 'setMode', seq: this.seq, index, colorOverride: this.colorOverride });
+    return true;
+  }
+
+  refreshColors() {
+    if (this.local) {
+      this.local.colorOverride = this.colorOverride;
+      this.local.refreshColors();
+      return;
+    }
+    const s = this.state;
+    if (s.modeBlend >= 1) {
+      s.modeBlend = 0.5;
+      s.targetMode = s.currentMode;
+    }
+    this.stateSeq = ++this.seq;
+    this.post({ type: 'colors', seq: this.seq, colorOverride: this.colorOverride });
+  }
+
+  syncModes() {
+    if (!this.local) this.post({ type: 'modes', modes: this.modes });
+  }
+
+  getActiveMode(): Mode {
+    return blendModes(this.modes[this.currentMode], this.modes[this.targetMode], this.modeBlend);
+  }
+
+  setTargets(points: Float32Array, colors: Float32Array | null = null) {
+    if (this.local) {
+      this.local.setTargets(points, colors);
+      return;
+    }
+    this.targets = { points, colors };
+    this.post({ type: 'targets', points, colors });
+  }
+
+  burstAt(wx: number, wy: number, wz: number, push: boolean): Promise<number> {
+    if (this.local) return this.local.burstAt(wx, wy, wz, push);
+    const id = this.nextBurstId++;
+    this.post({ type: 'burst', id, x: wx, y: wy, z: wz, push });
+    return new Promise((resolve) => this.bursts.set(id, resolve));
+  }
+
+  step(dt: number): FrameUpdate | null {
+    if (this.local) {
+      this.local.pointers.splice(0, this.local.pointers.length, ...this.pointers);
+      Object.assign(this.local.modulation, this.modulation);
+      this.local.activeCount = this.activeCount;
+      const update = this.local.step(dt);
+      if (this.firstFrame) {
+        // Buffers were just replaced by the fallback's own
+        this.firstFrame = false;
+        return { appearanceChanged: true, alphasChanged: true, mortal: true };
+      }
+      return update;
+    }
+
+    let update: FrameUpdate | null = null;
+    const frame = this.pending;
+    if (frame) {
+      this.pending = null;
+      this.front = this.slots[frame.slot];
+      this.energy = frame.kineticEnergy;
+      // Ignore state from frames produced before our latest local change
+      if (frame.seq >= this.stateSeq) this.state = frame.state;
+      update = {
+        appearanceChanged: frame.appearanceChanged || this.firstFrame,
+        alphasChanged: this.firstFrame,
+        mortal: frame.mortal || this.firstFrame,
+      };
+      this.firstFrame = false;
+    }
+
+    // Lifetimes run on the main thread so expiry is visible immediately
+    ageSources(this.sources, dt);
+
+    // One request in flight at a time: the worker writes the back slot
+    // while the renderer reads the front one
+    this.pendingDt = Math.min(this.pendingDt + dt, 0.05);
+    if (!this.inFlight) {
+      this.inFlight = true;
+      this.post({
+        type: 'step',
+        seq: this.seq,
+        dt: this.pendingDt,
+        activeCount: this.activeCount,
+        pointers: this.pointers,
+        modulation: { ...this.modulation },
+        sources: this.sources,
+      });
+      this.pendingDt = 0;
+    }
+    return update;
+  }
+
+  private receive(msg: FromWorker) {
+    switch (msg.type) {
+      case 'ready':
+        this.sharedAlphas.set(msg.alphas);
+        break;
+      case 'frame':
+        this.pending = msg;
+        this.inFlight = false;
+        break;
+      case 'burst':
+        this.bursts.get(msg.id)?.(msg.hits);
+        this.bursts.delete(msg.id);
+        break;
+    }
+  }
+
+  private post(msg: ToWorker) {
+    this.worker.postMessage(msg);
+  }
+
+  private fallBack() {
+    if (this.local) return;
+    this.worker.terminate();
+    this.local = new LocalSimulation(this.count, {
+      seed: this.seed,
+      modes: this.modes,
+      initialMode: this.state.targetMode,
+      colorOverride: this.colorOverride,
+      sources: this.sources,
+      activeCount: this.activeCount,
+    });
+    if (this.targets) {
+      this.local.setTargets(this.targets.points, this.targets.colors);
+      this.local.refreshColors();
+    }
+    this.firstFrame = true;
+    this.bursts.forEach((resolve) => resolve(0));
+    this.bursts.clear();
+  }
+}
+
+/** Picks the worker when SharedArrayBuffer is usable, in-thread otherwise */
+export function createSimulation(count: number, options: HostOptions): SimulationHost {
+  if (typeof Worker !== 'undefined' && globalThis.crossOriginIsolated) {
+    try {
+      return new WorkerSimulation(count, options);
+    } catch (err) {
+      console.warn('Simulation worker unavailable, running in-thread:', err);
+    }
+  }
+  return new LocalSimulation(count, options);
+}
@@ -0,0 +1,66 @@
+// ─── Worker Protocol ──────────────────────────────────────
+// Messages between the main thread and `simulation.worker.ts`.
+
+import type { Mode } from './modes.ts';
+import type { Modulation, Pointer } from './simulation.ts';
+import type { FieldSource } from './field-sources.ts';
+
+/** Per-frame output of the simulation — what the renderer uploads */
+export interface FrameBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+  sizes: Float32Array;
+  speeds: Float32Array;
+  ages: Float32Array;
+  lifespans: Float32Array;
+}
+
+export interface ModeState {
+  currentMode: number;
+  targetMode: number;
+  modeBlend: number;
+}
+
+export type ToWorker =
+  | {
+      type: 'init';
+      count: number;
+      seed: number;
+      modes: Mode[];
+      initialMode: number;
+      colorOverride: number | null;
+      /** Two frame slots backed by SharedArrayBuffers */
+      slots: [FrameBuffers, FrameBuffers];
+    }
+  | {
+      type: 'step';
+      seq: number;
+      dt: number;
+      activeCount: number;
+      pointers: Pointer[];
+      modulation: Modulation;
+      /** The main thread owns sources (and their lifetimes) — sent every step */
+      sources: FieldSource[];
+    }
+  | { type: 'setMode'; seq: number; index: number; colorOverride: number | null }
+  | { type: 'colors'; seq: number; colorOverride: number | null }
+  | { type: 'modes'; modes: Mode[] }
+  | { type: 'targets'; points: Float32Array; colors: Float32Array | null }
+  | { type: 'burst'; id: number; x: number; y: number; z: number; push: boolean };
+
+export type FromWorker =
+  | { type: 'ready'; alphas: Float32Array }
+  | {
+      type: 'frame';
+      /** Last state-changing command applied before this frame was produced */
+      seq: number;
+      state: ModeState;
+      /** Colors/sizes were still blending — they need re-uploading */
+      appearanceChanged: boolean;
+      /** Particles are living out lifespans — ages and lifespans need re-uploading */
+      mortal: boolean;
+      kineticEnergy: number;
+      /** Which slot holds the frame */
+      slot: number;
+    }
+  | { type: 'burst'; id: number; hits: number };
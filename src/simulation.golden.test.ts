@@ -0,0 +1,31 @@
+// Golden-state regression: a seeded simulation must keep reproducing the
+// stored frame. A deliberate change to the physics or the random stream
+// updates the snapshot with `npx vitest run -u`.
+
+import { describe, expect, it } from 'vitest';
+import { ParticleSimulation } from './simulation.ts';
+import { MODES } from './modes.ts';
+
+const SEED = 0x5eed;
+const COUNT = 1000;
+const FRAMES = 120;
+/** Every n-th particle is recorded — enough to catch drift, small enough to read */
+const STRIDE = 97;
+
+function goldenFrame(mode: string): number[][] {
+  const sim = new ParticleSimulation(COUNT, { seed: SEED, initialMode: MODES.findIndex((m) => m.name === mode) });
+  for (let f = 0; f < FRAMES; f++) sim.step(1 / 60);
+  const frame: number[][] = [];
+  for (let i = 0; i < COUNT; i += STRIDE) {
+    frame.push(Array.from(sim.positions.subarray(i * 3, i * 3 + 3), (v) => Math.round(v * 1e3) / 1e3));
+  }
+  return frame;
+}
+
+describe('seeded simulation', () => {
+  for (const mode of ['void', 'vortex', 'murmuration', 'supernova']) {
+    it(`reproduces the stored ${mode} frame`, () => {
+      expect(goldenFrame(mode)).toMatchSnapshot();
+    });
+  }
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { BOUNDS, ParticleSimulation } from './simulation.ts';
+import { DEFAULT_MODE, MODES } from './modes.ts';
+
+const COUNT = 2000;
+const DT = 1 / 60;
+
+function run(sim: ParticleSimulation, seconds: number) {
+  for (let t = 0; t < seconds; t += DT) sim.step(DT);
+}
+
+describe('ParticleSimulation', () => {
+  it('starts in the requested mode with every particle placed', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 1 });
+    expect(sim.currentMode).toBe(DEFAULT_MODE);
+    expect(sim.positions).toHaveLength(COUNT * 3);
+    expect(sim.positions.every(Number.isFinite)).toBe(true);
+    expect(sim.sizes.every((s) => s > 0)).toBe(true);
+  });
+
+  it('keeps particles finite and inside the field in every mode', () => {
+    MODES.forEach((m, index) => {
+      const sim = new ParticleSimulation(COUNT, { seed: 2, initialMode: index });
+      run(sim, 2);
+      for (let i = 0; i < COUNT; i++) {
+        const [x, y, z] = sim.positions.subarray(i * 3, i * 3 + 3);
+        expect(Number.isFinite(x + y + z), m.name).toBe(true);
+        expect(Math.abs(x), m.name).toBeLessThanOrEqual(BOUNDS);
+        expect(Math.abs(y), m.name).toBeLessThanOrEqual(BOUNDS);
+        expect(Math.abs(z), m.name).toBeLessThanOrEqual(m.depthRange);
+      }
+    });
+  });
+
+  it('moves particles and reports their energy', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 3 });
+    const before = sim.positions.slice();
+    sim.step(DT);
+    expect(sim.positions).not.toEqual(before);
+    expect(sim.kineticEnergy).toBeGreaterThan(0);
+  });
+
+  it('freezes particles beyond the active count', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 4, activeCount: COUNT / 2 });
+    const frozen = sim.positions.slice(COUNT * 1.5);
+    run(sim, 0.5);
+    expect(sim.positions.slice(COUNT * 1.5)).toEqual(frozen);
+    expect(sim.ages[COUNT - 1]).toBe(0);
+    expect(sim.ages[0]).toBeGreaterThan(0);
+  });
+
+  it('blends into a new mode over about two seconds', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 5 });
+    expect(sim.setMode(0)).toBe(true);
+    expect(sim.setMode(-1)).toBe(false);
+    expect(sim.blending).toBe(true);
+    run(sim, 1);
+    expect(sim.currentMode).toBe(DEFAULT_MODE);
+    expect(sim.getActiveMode().name).toBe(MODES[0].name);
+    run(sim, 1.1);
+    expect(sim.blending).toBe(false);
+    expect(sim.currentMode).toBe(0);
+    expect(sim.setMode(0)).toBe(false);
+  });
+
+  it('moves particles near a burst radially, one way or the other', () => {
+    const outward = (push: boolean) => {
+      const sim = new ParticleSimulation(COUNT, { seed: 6 });
+      run(sim, 0.2);
+      const before = sim.velocities.slice();
+      expect(sim.burstAt(0, 0, 0, push)).toBeGreaterThan(0);
+      let sum = 0;
+      for (let i = 0; i < COUNT; i++) {
+        const dvx = sim.velocities[i * 3] - before[i * 3];
+        const dvy = sim.velocities[i * 3 + 1] - before[i * 3 + 1];
+        const dvz = sim.velocities[i * 3 + 2] - before[i * 3 + 2];
+        sum += dvx * sim.positions[i * 3] + dvy * sim.positions[i * 3 + 1] + dvz * sim.positions[i * 3 + 2];
+      }
+      return sum;
+    };
+    expect(Math.sign(outward(true))).toBe(-Math.sign(outward(false)));
+    expect(outward(false)).not.toBe(0);
+  });
+
+  it('bursts only around the point in depth, not through the field', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 9 });
+    run(sim, 0.2);
+    const before = sim.velocities.slice();
+    sim.burstAt(0, 0, 30, true);
+    for (let i = 0; i < COUNT; i++) {
+      if (sim.positions[i * 3 + 2] >= 17) continue;
+      expect(sim.velocities.subarray(i * 3, i * 3 + 3)).toEqual(before.subarray(i * 3, i * 3 + 3));
+    }
+  });
+
+  it('pulls particles within reach towards a held pointer and leaves the rest', () => {
+    const sim = new ParticleSimulation(COUNT, { seed: 10 });
+    const still = new ParticleSimulation(COUNT, { seed: 10 });
+    sim.pointers.push({ x: 20, y: 0, z: 0, active: true, down: true, repelling: false });
+    const start = sim.positions.slice();
+    sim.step(DT);
+    still.step(DT);
+    let pulled = 0;
+    for (let i = 0; i < COUNT; i++) {
+      const [x, y, z] = start.subarray(i * 3, i * 3 + 3);
+      const dvx = sim.velocities[i * 3] - still.velocities[i * 3];
+      if (Math.hypot(x - 20, y, z) > 24) expect(dvx).toBe(0);
+      else if (x < 18) pulled += Math.sign(dvx);
+    }
+    expect(pulled).toBeGreaterThan(0);
+  });
+
+  it('reruns identically from the same seed and differently from another', () => {
+    const a = new ParticleSimulation(COUNT, { seed: 7 });
+    const b = new ParticleSimulation(COUNT, { seed: 7 });
+    const c = new ParticleSimulation(COUNT, { seed: 8 });
+    for (const sim of [a, b, c]) run(sim, 1);
+    expect(b.positions).toEqual(a.positions);
+    expect(c.positions).not.toEqual(a.positions);
+  });
+});
@@ -0,0 +1,652 @@
+// ─── Particle Simulation ──────────────────────────────────
+// Owns the particle buffers, mode blending and forces. Has no DOM or
+// WebGL dependency, so it can be stepped headlessly (e.g. in Node).
+
+import { Color } from 'three';
+import { MODES, DEFAULT_MODE, blendModes, type Mode } from './modes.ts';
+import { createRandom, deriveSeed, randomSeed, type Random } from './random.ts';
+import { SpatialHash } from './spatial-hash.ts';
+import { FlockField } from './flocking.ts';
+import { ageSources, sourceFade, type FieldSource } from './field-sources.ts';
+import { sampleShape } from './shapes.ts';
+import { Emitters, type Spawn } from './emitters.ts';
+
+export const BOUNDS = 40;
+/** Deepest any mode may go — the spatial hash is sized to cover it */
+export const MAX_DEPTH = 60;
+const GRID_CELL = 4;
+/** Speed (units per 60 Hz frame) flocking particles try to hold */
+const CRUISE_SPEED = 0.2;
+/** Distance within which flocking neighbors push apart, and how hard */
+const SEPARATION_RADIUS = 1;
+const SEPARATION_GAIN = 10;
+/** Most neighbors a particle keeps clear of per step — starlings heed about seven */
+const SEPARATION_NEIGHBORS = 7;
+/** Shortest lifespan (seconds) a mortal particle is given */
+const MIN_LIFE = 0.1;
+/** Distance at which a pointer's pull has eased to nothing */
+const POINTER_REACH = 24;
+
+/** A cursor, finger or pen — each one pulls (or pushes) on its own */
+export interface Pointer {
+  x: number;
+  y: number;
+  z: number;
+  /** Cursor is over the field — applies a faint attraction */
+  active: boolean;
+  /** Button / finger held — applies the full mouse force */
+  down: boolean;
+  repelling: boolean;
+}
+
+/** Live changes on top of the active mode, e.g. from audio reactivity or a show */
+export interface Modulation {
+  /** Added to the mode's swirl */
+  swirl: number;
+  /** Parameters replacing the mode's own */
+  overrides: Partial<Mode>;
+}
+
+export interface SimulationOptions {
+  modes?: Mode[];
+  initialMode?: number;
+  /** Hue (0-1) the initial layout is colored with instead of the mode's range */
+  colorOverride?: number | null;
+  /** Seed for the built-in PRNG; a fresh one is drawn when omitted */
+  seed?: number;
+  /** Custom generator — overrides `seed` for the random stream */
+  random?: Random;
+  /** Array to use as `sources` — lets a caller keep its own reference */
+  sources?: FieldSource[];
+  /** Particles simulated from the start — defaults to all of them */
+  activeCount?: number;
+}
+
+export class ParticleSimulation {
+  readonly count: number;
+  readonly modes: Mode[];
+  readonly seed: number;
+
+  readonly positions: Float32Array;
+  readonly velocities: Float32Array;
+  readonly colors: Float32Array;
+  readonly sizes: Float32Array;
+  readonly alphas: Float32Array;
+  /** |v| per particle after the last step — for speed coloring */
+  readonly speeds: Float32Array;
+  /** Seconds since each particle was (re)born */
+  readonly ages: Float32Array;
+  /** Seconds each particle lives before it's reborn at an emitter; 0 = forever */
+  readonly lifespans: Float32Array;
+  readonly targetColors: Float32Array;
+  readonly targetSizes: Float32Array;
+  /** Where each particle is pulled to in modes with a `spring` */
+  readonly targetPositions: Float32Array;
+
+  currentMode: number;
+  targetMode: number;
+  modeBlend = 1.0;
+  colorOverride: number | null = null; // null = mode default, number = hue (0-1)
+  /** Mean ½|v|² per particle after the last step — drives the motion sound */
+  kineticEnergy = 0;
+  private _activeCount: number;
+  private _mortal = false;
+
+  /** Every live pointer — add and remove freely between steps */
+  readonly pointers: Pointer[] = [];
+  readonly modulation: Modulation = { swirl: 0, overrides: {} };
+  /** Persistent attractors, repulsors and vortices — edit freely between steps */
+  readonly sources: FieldSource[];
+  readonly grid: SpatialHash;
+
+  private random: Random;
+  /** Per-particle colors that came with the morph target (e.g. an image), if any */
+  private morphColors: Float32Array | null = null;
+  private queryBuf: Int32Array;
+  private neighborBuf = new Int32Array(SEPARATION_NEIGHBORS);
+  private _nearGrid: SpatialHash | null = null;
+  /** Per-particle velocity changes gathered through the grid before the particle loop */
+  private fieldPush: Float32Array;
+  private fleePush: Float32Array;
+  private flock = new FlockField([BOUNDS, BOUNDS, MAX_DEPTH]);
+  private tmpColor = new Color();
+  private emitters: Emitters;
+  private spawnBuf: Spawn = { x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 };
+
+  constructor(count: number, options: SimulationOptions = {}) {
+    const { modes = MODES, initialMode = DEFAULT_MODE } = options;
+    this.count = count;
+    this.modes = modes;
+    this.seed = options.seed ?? randomSeed();
+    this.random = options.random ?? createRandom(this.seed);
+    this.currentMode = initialMode;
+    this.targetMode = initialMode;
+    this.colorOverride = options.colorOverride ?? null;
+    this.sources = options.sources ?? [];
+    this._activeCount = Math.max(0, Math.min(count, options.activeCount ?? count));
+    this.emitters = new Emitters(BOUNDS, this.random);
+
+    this.positions = new Float32Array(count * 3);
+    this.velocities = new Float32Array(count * 3);
+    this.colors = new Float32Array(count * 3);
+    this.sizes = new Float32Array(count);
+    this.alphas = new Float32Array(count);
+    this.speeds = new Float32Array(count);
+    this.ages = new Float32Array(count);
+    this.lifespans = new Float32Array(count);
+    this.targetColors = new Float32Array(count * 3);
+    this.targetSizes = new Float32Array(count);
+    this.targetPositions = new Float32Array(count * 3);
+
+    const m = modes[initialMode];
+    for (let i = 0; i < count; i++) {
+      this.randomizeParticle(i, m);
+    }
+    this._mortal = m.lifeRange[1] > 0 && this._activeCount > 0;
+
+    // Own stream, so the default shape doesn't shift the particle sequence
+    this.targetPositions.set(sampleShape('sphere', count, createRandom(deriveSeed(this.seed, 0x5ea9e))));
+
+    this.grid = new SpatialHash(GRID_CELL, [BOUNDS, BOUNDS, MAX_DEPTH], count);
+    this.grid.update(this.positions, this._activeCount);
+    this.queryBuf = new Int32Array(count);
+    this.fieldPush = new Float32Array(count * 3);
+    this.fleePush = new Float32Array(count * 3);
+  }
+
+  /**
+   * How many particles (from index 0) are simulated. The rest keep their
+   * state, frozen and out of spatial queries, until the count grows again.
+   */
+  get activeCount(): number {
+    return this._activeCount;
+  }
+
+  set activeCount(n: number) {
+    this._activeCount = Math.max(0, Math.min(this.count, Math.round(n)));
+  }
+
+  /** True while any simulated particle has a lifespan, so ages and lifespans matter to the renderer */
+  get mortal(): boolean {
+    return this._mortal;
+  }
+
+  /** True while colors and sizes are still easing towards their targets */
+  get blending(): boolean {
+    return this.modeBlend < 1;
+  }
+
+  // ─── Colors ─────────────────────────────────────────────
+  getHueRange(m: Mode): [number, number] {
+    if (this.colorOverride === null) return m.hueRange;
+    return [this.colorOverride - 0.06, this.colorOverride + 0.06];
+  }
+
+  getSatRange(m: Mode): [number, number] {
+    if (this.colorOverride === null) return m.satRange;
+    // Boost saturation so custom colors are visible even on desaturated modes like void
+    return [Math.max(m.satRange[0], 0.5), Math.max(m.satRange[1], 0.9)];
+  }
+
+  /** Morph colors replace the mode's HSL ranges while a spring holds the shape */
+  private usesMorphColors(m: Mode): boolean {
+    return this.morphColors !== null && m.spring > 0 && this.colorOverride === null;
+  }
+
+  randomizeParticle(i: number, m: Mode, scatter = 1.0) {
+    const i3 = i * 3;
+    const { colors, tmpColor, random } = this;
+
+    this.scatter(i, m, scatter);
+
+    if (this.usesMorphColors(m)) {
+      colors.set(this.morphColors!.subarray(i3, i3 + 3), i3);
+    } else {
+      const hr = this.getHueRange(m);
+      const sr = this.getSatRange(m);
+      const hue = hr[0] + random() * (hr[1] - hr[0]);
+      const sat = sr[0] + random() * (sr[1] - sr[0]);
+      const light = m.lightRange[0] + random() * (m.lightRange[1] - m.lightRange[0]);
+      tmpColor.setHSL(hue, sat, light);
+
+      colors[i3] = tmpColor.r;
+      colors[i3 + 1] = tmpColor.g;
+      colors[i3 + 2] = tmpColor.b;
+    }
+
+    this.sizes[i] = m.sizeRange[0] + random() * (m.sizeRange[1] - m.sizeRange[0]);
+    this.alphas[i] = 0.25 + random() * 0.75;
+
+    // Staggered, so a mortal mode doesn't start with everyone dying at once
+    this.lifespans[i] = this.lifespan(m);
+    this.ages[i] = this.lifespans[i] > 0 ? random() * this.lifespans[i] : 0;
+  }
+
+  /** Position and velocity only — somewhere in a sphere around the center */
+  private scatter(i: number, m: Mode, scatter = 1.0) {
+    const i3 = i * 3;
+    const { positions, velocities, random } = this;
+
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+    const r = Math.pow(random(), 0.6) * BOUNDS * scatter;
+
+    positions[i3] = r * Math.sin(phi) * Math.cos(theta);
+    positions[i3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    positions[i3 + 2] = (random() - 0.5) * m.depthRange * 2;
+
+    velocities[i3] = (random() - 0.5) * 0.3;
+    velocities[i3 + 1] = (random() - 0.5) * 0.3;
+    velocities[i3 + 2] = (random() - 0.5) * 0.1;
+  }
+
+  // ─── Lifecycle ──────────────────────────────────────────
+  /** A fresh lifespan from the mode's range — 0 (forever) in immortal modes */
+  private lifespan(m: Mode): number {
+    const [lo, hi] = m.lifeRange;
+    if (hi <= 0) return 0;
+    return Math.max(MIN_LIFE, lo + this.random() * (hi - lo));
+  }
+
+  /** Rebirth at the mode's emitter, or scattered like the initial layout when it has none */
+  private respawn(i: number, m: Mode) {
+    const i3 = i * 3;
+    const { positions, velocities, spawnBuf: s } = this;
+    if (this.emitters.spawn(m.emitter, m.emitSpeed, s)) {
+      positions[i3] = s.x;
+      positions[i3 + 1] = s.y;
+      positions[i3 + 2] = s.z;
+      velocities[i3] = s.vx;
+      velocities[i3 + 1] = s.vy;
+      velocities[i3 + 2] = s.vz;
+    } else {
+      this.scatter(i, m);
+    }
+    this.ages[i] = 0;
+    this.lifespans[i] = this.lifespan(m);
+  }
+
+  // ─── Transition Targets ─────────────────────────────────
+  precomputeTargets(m: Mode) {
+    const { targetColors, targetSizes, tmpColor, random } = this;
+    const hr = this.getHueRange(m);
+    const sr = this.getSatRange(m);
+    const morphColors = this.usesMorphColors(m) ? this.morphColors : null;
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      if (morphColors) {
+        targetColors[i3] = morphColors[i3];
+        targetColors[i3 + 1] = morphColors[i3 + 1];
+        targetColors[i3 + 2] = morphColors[i3 + 2];
+      } else {
+        const hue = hr[0] + random() * (hr[1] - hr[0]);
+        const sat = sr[0] + random() * (sr[1] - sr[0]);
+        const light = m.lightRange[0] + random() * (m.lightRange[1] - m.lightRange[0]);
+        tmpColor.setHSL(hue, sat, light);
+        targetColors[i3] = tmpColor.r;
+        targetColors[i3 + 1] = tmpColor.g;
+        targetColors[i3 + 2] = tmpColor.b;
+      }
+      targetSizes[i] = m.sizeRange[0] + random() * (m.sizeRange[1] - m.sizeRange[0]);
+    }
+  }
+
+  /** Starts a transition to `index`. Returns false if nothing changed. */
+  setMode(index: number): boolean {
+    if (index < 0 || index >= this.modes.length) return false;
+    if (index === this.currentMode && this.modeBlend >= 1) return false;
+    this.targetMode = index;
+    this.modeBlend = 0;
+    this.precomputeTargets(this.modes[index]);
+    return true;
+  }
+
+  /**
+   * Sets the morph target from a flat xyz list of any length. With fewer
+   * points than particles they're shared (with a little jitter so stacked
+   * particles don't collapse into one); with more, they're evenly thinned.
+   * `colors` (linear rgb, one per point) replace the mode's palette while a
+   * spring mode is active; call `refreshColors` to apply them.
+   */
+  setTargets(points: Float32Array, colors: Float32Array | null = null) {
+    const n = Math.floor(points.length / 3);
+    if (n === 0) return;
+    const { targetPositions, random } = this;
+    if (colors && !this.morphColors) this.morphColors = new Float32Array(this.count * 3);
+    if (!colors) this.morphColors = null;
+    const morphColors = this.morphColors;
+
+    for (let i = 0; i < this.count; i++) {
+      const i3 = i * 3;
+      const j3 = (n >= this.count ? Math.floor((i * n) / this.count) : i % n) * 3;
+      const jitter = i < n ? 0 : 0.4;
+      targetPositions[i3] = points[j3] + (random() - 0.5) * jitter;
+      targetPositions[i3 + 1] = points[j3 + 1] + (random() - 0.5) * jitter;
+      targetPositions[i3 + 2] = points[j3 + 2] + (random() - 0.5) * jitter;
+      if (morphColors) {
+        morphColors[i3] = colors![j3];
+        morphColors[i3 + 1] = colors![j3 + 1];
+        morphColors[i3 + 2] = colors![j3 + 2];
+      }
+    }
+  }
+
+  /** Re-targets colors after `colorOverride` changed */
+  refreshColors() {
+    const m = this.modes[this.modeBlend >= 1 ? this.currentMode : this.targetMode];
+    this.precomputeTargets(m);
+    if (this.modeBlend >= 1) {
+      // Force a blend to happen
+      this.modeBlend = 0.5;
+      this.targetMode = this.currentMode;
+    }
+  }
+
+  getActiveMode(): Mode {
+    return blendModes(this.modes[this.currentMode], this.modes[this.targetMode], this.modeBlend);
+  }
+
+  // ─── Physics ────────────────────────────────────────────
+  step(dt: number) {
+    // A copy — the blend returns the mode itself once it completes
+    const m: Mode = { ...this.getActiveMode(), ...this.modulation.overrides };
+    const { positions, velocities, speeds, ages, lifespans, targetPositions, random, flock, neighborBuf } = this;
+
+    // Pointer gravity — full force while pressed, a faint pull while hovering
+    const grabs = this.pointers.filter((p) => p.down || p.active);
+    const grabForces = grabs.map((p) => (p.down ? m.mouseForce * (p.repelling ? -2.0 : 1.0) : m.mouseForce * 0.25));
+    const eq = m.equilibrium;
+    const swirl = m.swirl + this.modulation.swirl;
+
+    ageSources(this.sources, dt);
+    const sources = this.sources;
+    const active = this._activeCount;
+
+    // Pointers and placed sources only reach so far — each visits just the
+    // grid cells in its reach, adding into one buffer the loop then reads
+    const { fieldPush, fleePush } = this;
+    const pushed = grabs.length > 0 || sources.length > 0;
+    if (pushed) {
+      fieldPush.fill(0, 0, active * 3);
+      this.gatherGrabs(grabs, grabForces, dt, fieldPush);
+      this.gatherSources(sources, dt, fieldPush);
+    }
+
+    const flocking = m.separation > 0 || m.alignment > 0 || m.cohesion > 0;
+    if (flocking) flock.build(positions, velocities, active, m.perception);
+    const nearGrid = flocking && m.separation > 0 ? this.nearGrid() : null;
+    nearGrid?.update(positions, active);
+    // Repelling pointers become predators the flock scatters from
+    const predators = flocking ? grabs.filter((p) => p.repelling) : [];
+    if (predators.length > 0) {
+      fleePush.fill(0, 0, active * 3);
+      this.gatherPredators(predators, m.perception * 4, m.mouseForce * 0.02, fleePush);
+    }
+
+    // Immortal particles in a mortal mode join the cycle a few at a time,
+    // about one mean lifespan for the whole field
+    const mortalMode = m.lifeRange[1] > 0;
+    const joinChance = mortalMode ? dt / Math.max(MIN_LIFE, (m.lifeRange[0] + m.lifeRange[1]) / 2) : 0;
+    this.emitters.update(m.emitter, dt);
+
+    let energy = 0;
+    let mortals = 0;
+    for (let i = 0; i < active; i++) {
+      const i3 = i * 3;
+
+      // Lifecycle — the dead are reborn at the emitter of the mode in effect
+      const life = lifespans[i];
+      // Gathered forces were meant for where a reborn particle used to be
+      const reborn = life > 0 ? ages[i] >= life : mortalMode && random() < joinChance;
+      if (reborn) this.respawn(i, m);
+      if (lifespans[i] > 0) mortals++;
+
+      let px = positions[i3],
+        py = positions[i3 + 1],
+        pz = positions[i3 + 2];
+      let vx = velocities[i3],
+        vy = velocities[i3 + 1],
+        vz = velocities[i3 + 2];
+
+      // Center pull with equilibrium — attracts when far, repels when close
+      const centerDist = Math.sqrt(px * px + py * py + pz * pz) + 0.1;
+      const pullForce = m.centerPull * (centerDist - eq);
+      vx -= (px / centerDist) * pullForce;
+      vy -= (py / centerDist) * pullForce;
+      vz -= (pz / centerDist) * pullForce * 0.3;
+
+      // Pointer gravity and placed sources
+      if (pushed && !reborn) {
+        vx += fieldPush[i3];
+        vy += fieldPush[i3 + 1];
+        vz += fieldPush[i3 + 2];
+      }
+
+      // Morph spring — each particle is pulled towards its own target
+      if (m.spring > 0) {
+        vx += (targetPositions[i3] - px) * m.spring;
+        vy += (targetPositions[i3 + 1] - py) * m.spring;
+        vz += (targetPositions[i3 + 2] - pz) * m.spring;
+      }
+
+      // Swirl
+      if (swirl > 0) {
+        const dist = Math.sqrt(px * px + pz * pz) + 0.5;
+        vx += (-pz / dist) * swirl;
+        vz += (px / dist) * swirl;
+      }
+
+      // Flocking — cohesion and separation act along the same axis, so
+      // sparse neighborhoods close ranks and crowded ones spread out
+      if (flocking && flock.sample(px, py, pz)) {
+        const pull = m.cohesion - m.separation * flock.crowd;
+        vx += (flock.cx - px) * pull + (flock.vx - vx) * m.alignment;
+        vy += (flock.cy - py) * pull + (flock.vy - vy) * m.alignment;
+        vz += (flock.cz - pz) * pull + (flock.vz - vz) * m.alignment;
+
+        // The field above is too coarse to part a dense clump — a few
+        // neighbors sharing a fine grid cell also push apart, harder the
+        // closer they are
+        if (nearGrid) {
+          const near = nearGrid.cellmates(i, neighborBuf);
+          for (let h = 0; h < near; h++) {
+            const j3 = neighborBuf[h] * 3;
+            const dx = px - positions[j3];
+            const dy = py - positions[j3 + 1];
+            const dz = pz - positions[j3 + 2];
+            const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) + 1e-3;
+            if (dist >= SEPARATION_RADIUS) continue;
+            const f = (m.separation * SEPARATION_GAIN * (1 / dist - 1 / SEPARATION_RADIUS)) / dist;
+            vx += dx * f;
+            vy += dy * f;
+            vz += dz * f;
+          }
+        }
+
+        // Birds don't hover: ease towards cruising speed along the current heading
+        const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+        if (speed > 1e-4) {
+          const k = ((CRUISE_SPEED - speed) / speed) * m.alignment;
+          vx += vx * k;
+          vy += vy * k;
+          vz += vz * k;
+        }
+      }
+
+      if (predators.length > 0 && !reborn) {
+        vx += fleePush[i3];
+        vy += fleePush[i3 + 1];
+        vz += fleePush[i3 + 2];
+      }
+
+      // Random drift
+      vx += (random() - 0.5) * m.drift;
+      vy += (random() - 0.5) * m.drift;
+      vz += (random() - 0.5) * m.drift * 0.3;
+
+      vy -= m.gravity;
+
+      // Damping
+      vx *= m.damping;
+      vy *= m.damping;
+      vz *= m.damping;
+
+      // Integrate
+      px += vx * dt * 60;
+      py += vy * dt * 60;
+      pz += vz * dt * 60;
+
+      // Soft boundary
+      if (px > BOUNDS) { px = BOUNDS; vx *= -0.3; }
+      if (px < -BOUNDS) { px = -BOUNDS; vx *= -0.3; }
+      if (py > BOUNDS) { py = BOUNDS; vy *= -0.3; }
+      if (py < -BOUNDS) { py = -BOUNDS; vy *= -0.3; }
+      if (pz > m.depthRange) { pz = m.depthRange; vz *= -0.3; }
+      if (pz < -m.depthRange) { pz = -m.depthRange; vz *= -0.3; }
+
+      positions[i3] = px;
+      positions[i3 + 1] = py;
+      positions[i3 + 2] = pz;
+      velocities[i3] = vx;
+      velocities[i3 + 1] = vy;
+      velocities[i3 + 2] = vz;
+      const v2 = vx * vx + vy * vy + vz * vz;
+      energy += v2;
+      speeds[i] = Math.sqrt(v2);
+      ages[i] += dt;
+    }
+    this.kineticEnergy = active > 0 ? (0.5 * energy) / active : 0;
+    this._mortal = mortals > 0;
+
+    this.grid.update(positions, active);
+
+    // Smooth color/size transition
+    if (this.modeBlend < 1) {
+      this.modeBlend = Math.min(this.modeBlend + dt * 0.5, 1);
+      if (this.modeBlend >= 1) {
+        this.currentMode = this.targetMode;
+      }
+
+      const { colors, sizes, targetColors, targetSizes } = this;
+      const rate = dt * 2.5;
+      for (let i = 0; i < this.count * 3; i++) {
+        colors[i] += (targetColors[i] - colors[i]) * rate;
+      }
+      for (let i = 0; i < this.count; i++) {
+        sizes[i] += (targetSizes[i] - sizes[i]) * rate;
+      }
+    }
+  }
+
+  /** Grid with cells as wide as separation's reach — built on first use */
+  private nearGrid(): SpatialHash {
+    this._nearGrid ??= new SpatialHash(SEPARATION_RADIUS, [BOUNDS, BOUNDS, MAX_DEPTH], this.count);
+    return this._nearGrid;
+  }
+
+  // ─── Gathered Forces ────────────────────────────────────
+  // Forces with a reach are added into a per-particle buffer through the
+  // grid, so each visits only the cells it reaches rather than every particle.
+
+  /** Pointer gravity, easing to nothing at `POINTER_REACH` so it has no visible edge */
+  private gatherGrabs(grabs: Pointer[], forces: number[], dt: number, out: Float32Array) {
+    const { positions, queryBuf } = this;
+    const reachSq = POINTER_REACH * POINTER_REACH;
+    for (let k = 0; k < grabs.length; k++) {
+      const p = grabs[k];
+      const hits = this.grid.queryRadius(positions, p.x, p.y, p.z, POINTER_REACH, queryBuf);
+      for (let h = 0; h < hits; h++) {
+        const i3 = queryBuf[h] * 3;
+        const dx = p.x - positions[i3];
+        const dy = p.y - positions[i3 + 1];
+        const dz = p.z - positions[i3 + 2];
+        const distSq = dx * dx + dy * dy + dz * dz;
+        const f = ((forces[k] * dt) / (distSq + 4)) * (1 - distSq / reachSq);
+        out[i3] += dx * f;
+        out[i3 + 1] += dy * f;
+        out[i3 + 2] += dz * f * 0.2;
+      }
+    }
+  }
+
+  /** Placed sources — force eases from full at the center to 0 at the radius */
+  private gatherSources(sources: FieldSource[], dt: number, out: Float32Array) {
+    const { positions, queryBuf } = this;
+    for (let k = 0; k < sources.length; k++) {
+      const s = sources[k];
+      const strength = s.strength * sourceFade(s) * dt * 3;
+      const dir = s.kind === 'repulsor' ? -1 : 1;
+      const hits = this.grid.queryRadius(positions, s.x, s.y, s.z, s.radius, queryBuf);
+      for (let h = 0; h < hits; h++) {
+        const i3 = queryBuf[h] * 3;
+        const dx = s.x - positions[i3];
+        const dy = s.y - positions[i3 + 1];
+        const dz = s.z - positions[i3 + 2];
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) + 0.1;
+        const t = 1 - dist / s.radius;
+        if (t <= 0) continue;
+        const f = (strength * t ** s.falloff) / dist;
+        if (s.kind === 'vortex') {
+          // Spin about the source's Z axis with a slight inward lean to keep orbits
+          out[i3] += (-dy + dx * 0.3) * f;
+          out[i3 + 1] += (dx + dy * 0.3) * f;
+          out[i3 + 2] += dz * f * 0.1;
+        } else {
+          out[i3] += dx * f * dir;
+          out[i3 + 1] += dy * f * dir;
+          out[i3 + 2] += dz * f * dir * 0.2;
+        }
+      }
+    }
+  }
+
+  /** Repelling pointers as predators — flocking particles within `radius` scatter */
+  private gatherPredators(predators: Pointer[], radius: number, force: number, out: Float32Array) {
+    const { positions, queryBuf } = this;
+    const radiusSq = radius * radius;
+    for (let k = 0; k < predators.length; k++) {
+      const p = predators[k];
+      const hits = this.grid.queryRadius(positions, p.x, p.y, p.z, radius, queryBuf);
+      for (let h = 0; h < hits; h++) {
+        const i3 = queryBuf[h] * 3;
+        const dx = positions[i3] - p.x;
+        const dy = positions[i3 + 1] - p.y;
+        const dz = positions[i3 + 2] - p.z;
+        const distSq = dx * dx + dy * dy + dz * dz;
+        const dist = Math.sqrt(distSq) + 0.1;
+        const f = (1 - distSq / radiusSq) * force;
+        out[i3] += (dx / dist) * f;
+        out[i3 + 1] += (dy / dist) * f;
+        out[i3 + 2] += (dz / dist) * f * 0.3;
+      }
+    }
+  }
+
+  // ─── Click Burst ────────────────────────────────────────
+  /**
+   * Pushes (or pulls) particles within a sphere around a world point — the
+   * camera may look from any side, so depth counts. Returns how many were hit.
+   */
+  burstAt(wx: number, wy: number, wz: number, push: boolean): number {
+    const { positions, velocities, random, queryBuf } = this;
+    const force = push ? -3 : 3;
+    const radius = 12;
+    const radiusSq = radius * radius;
+
+    const hits = this.grid.queryRadius(positions, wx, wy, wz, radius, queryBuf);
+    for (let k = 0; k < hits; k++) {
+      const i3 = queryBuf[k] * 3;
+      const dx = positions[i3] - wx;
+      const dy = positions[i3 + 1] - wy;
+      const dz = positions[i3 + 2] - wz;
+      const distSq = dx * dx + dy * dy + dz * dz;
+      const strength = (1 - distSq / radiusSq) * force;
+      const dist = Math.sqrt(distSq) + 0.5;
+      velocities[i3] += (dx / dist) * strength;
+      velocities[i3 + 1] += (dy / dist) * strength;
+      velocities[i3 + 2] += (dz / dist + (random() - 0.5) * 0.3) * strength;
+    }
+
+    return hits;
+  }
+}
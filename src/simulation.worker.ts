@@ -0,0 +1,82 @@
+// ─── Simulation Worker ────────────────────────────────────
+// Runs ParticleSimulation off the main thread. Each `step` request
+// produces one frame, written into the shared slot the main thread
+// isn't currently reading.
+
+import { ParticleSimulation } from './simulation.ts';
+import type { FrameBuffers, FromWorker, ToWorker } from './simulation-protocol.ts';
+
+let sim: ParticleSimulation | null = null;
+let slots: [FrameBuffers, FrameBuffers] | null = null;
+let slot = 1;
+let seq = 0;
+
+function post(msg: FromWorker) {
+  self.postMessage(msg);
+}
+
+function writeFrame(s: ParticleSimulation, out: FrameBuffers) {
+  out.positions.set(s.positions);
+  out.colors.set(s.colors);
+  out.sizes.set(s.sizes);
+  out.speeds.set(s.speeds);
+  out.ages.set(s.ages);
+  out.lifespans.set(s.lifespans);
+}
+
+self.onmessage = (e: MessageEvent<ToWorker>) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    sim = new ParticleSimulation(msg.count, {
+      seed: msg.seed,
+      modes: msg.modes,
+      initialMode: msg.initialMode,
+      colorOverride: msg.colorOverride,
+    });
+    slots = msg.slots;
+    post({ type: 'ready', alphas: sim.alphas.slice() });
+    return;
+  }
+
+  if (!sim || !slots) return;
+
+  switch (msg.type) {
+    case 'step': {
+      seq = Math.max(seq, msg.seq);
+      sim.pointers.splice(0, sim.pointers.length, ...msg.pointers);
+      Object.assign(sim.modulation, msg.modulation);
+      sim.activeCount = msg.activeCount;
+      sim.sources.splice(0, sim.sources.length, ...msg.sources);
+
+      const appearanceChanged = sim.blending;
+      sim.step(msg.dt);
+
+      const state = { currentMode: sim.currentMode, targetMode: sim.targetMode, modeBlend: sim.modeBlend };
+      slot = 1 - slot;
+      writeFrame(sim, slots[slot]);
+      post({ type: 'frame', seq, state, appearanceChanged, mortal: sim.mortal, kineticEnergy: sim.kineticEnergy, slot });
+      break;
+    }
+    case 'setMode':
+      seq = Math.max(seq, msg.seq);
+      sim.colorOverride = msg.colorOverride;
+      sim.setMode(msg.index);
+      break;
+    case 'colors':
+      seq = Math.max(seq, msg.seq);
+      sim.colorOverride = msg.colorOverride;
+      sim.refreshColors();
+      break;
+    case 'modes':
+      // Replace in place — the simulation holds on to the array
+      sim.modes.splice(0, sim.modes.length, ...msg.modes);
+      break;
+    case 'targets':
+      sim.setTargets(msg.points, msg.colors);
+      break;
+    case 'burst':
+      post({ type: 'burst', id: msg.id, hits: sim.burstAt(msg.x, msg.y, msg.z, msg.push) });
+      break;
+  }
+};
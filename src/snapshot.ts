@@ -0,0 +1,103 @@
+// ─── Snapshots ────────────────────────────────────────────
+// Renders one frame at an arbitrary resolution and returns it as a PNG.
+// The renderer and composer are resized offscreen for the duration of the
+// call; frames beyond the GPU's limits are rendered as tiles through the
+// camera's view offset and stitched on a 2D canvas.
+
+import { Vector2, type PerspectiveCamera, type WebGLRenderer } from 'three';
+import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+
+export interface SnapshotTarget {
+  renderer: WebGLRenderer;
+  composer: EffectComposer;
+  camera: PerspectiveCamera;
+  /** Called with the point-size multiplier that keeps particles the same size relative to the frame */
+  setPixelScale(scale: number): void;
+  /**
+   * Called before each tile with its place in the full frame (uv units from
+   * the bottom left) and the full frame's aspect, so screen-space effects
+   * line up across tiles
+   */
+  setFrame(x: number, y: number, width: number, height: number, aspect: number): void;
+}
+
+/** Largest edge a 2D canvas can be relied on to hold */
+export const MAX_SNAPSHOT_EDGE = 16384;
+/** Largest tile rendered at once — keeps the composer's float targets within GPU memory */
+const MAX_TILE_EDGE = 4096;
+/** UnrealBloomPass's blur kernel per mip; each mip is half the size of the one before, the first half the frame */
+const BLOOM_KERNELS = [3, 5, 7, 9, 11];
+/**
+ * Overlap rendered around each tile and cropped, so bloom doesn't stop at
+ * the seams: how far the blurs can carry light, in full-resolution pixels.
+ * Mips blur one after another, so their reaches add up (578 px).
+ */
+const TILE_PAD = BLOOM_KERNELS.reduce((sum, kernel, i) => sum + kernel * 2 ** (i + 1), 0);
+
+export function captureSnapshot(target: SnapshotTarget, width: number, height: number): Promise<Blob> {
+  const { renderer, composer, camera } = target;
+  width = Math.round(Math.min(Math.max(width, 1), MAX_SNAPSHOT_EDGE));
+  height = Math.round(Math.min(Math.max(height, 1), MAX_SNAPSHOT_EDGE));
+
+  const gl = renderer.getContext();
+  const maxEdge = Math.min(
+    MAX_TILE_EDGE,
+    renderer.capabilities.maxTextureSize,
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+    (gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array)[0],
+  );
+  const tiled = width > maxEdge || height > maxEdge;
+  // Small GPUs keep at least half of each tile for the picture itself
+  const pad = tiled ? Math.min(TILE_PAD, Math.floor(maxEdge / 4)) : 0;
+  const columns = Math.ceil(width / (maxEdge - 2 * pad));
+  const rows = Math.ceil(height / (maxEdge - 2 * pad));
+  const tileWidth = Math.ceil(width / columns);
+  const tileHeight = Math.ceil(height / rows);
+
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext('2d')!;
+
+  const screen = renderer.getSize(new Vector2());
+  const pixelRatio = renderer.getPixelRatio();
+  const aspect = camera.aspect;
+
+  try {
+    renderer.setPixelRatio(1);
+    renderer.setSize(tileWidth + 2 * pad, tileHeight + 2 * pad, false);
+    composer.setPixelRatio(1);
+    composer.setSize(tileWidth + 2 * pad, tileHeight + 2 * pad);
+    target.setPixelScale(height / (screen.height * pixelRatio));
+    camera.aspect = width / height;
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const x = col * tileWidth;
+        const y = row * tileHeight;
+        const w = tileWidth + 2 * pad;
+        const h = tileHeight + 2 * pad;
+        camera.setViewOffset(width, height, x - pad, y - pad, w, h);
+        camera.updateProjectionMatrix();
+        target.setFrame((x - pad) / width, 1 - (y - pad + h) / height, w / width, h / height, width / height);
+        composer.render();
+        // Same task as the render, so the drawing buffer hasn't been cleared yet
+        ctx.drawImage(renderer.domElement, pad, pad, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+    camera.aspect = aspect;
+    camera.updateProjectionMatrix();
+    renderer.setPixelRatio(pixelRatio);
+    renderer.setSize(screen.width, screen.height, false);
+    composer.setPixelRatio(pixelRatio);
+    composer.setSize(screen.width, screen.height);
+    target.setPixelScale(1);
+    target.setFrame(0, 0, 1, 1, screen.width / screen.height);
+  }
+
+  return new Promise((resolve, reject) => {
+    out.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('the browser could not encode the image'))), 'image/png');
+  });
+}
@@ -0,0 +1,90 @@
+// ─── Source Markers ───────────────────────────────────────
+// Faint rings showing where field sources sit and how far they reach:
+// a bright core at the center and a dim outline at the radius.
+
+import * as THREE from 'three';
+import { sourceFade, type FieldSource, type SourceKind } from './field-sources.ts';
+
+const KIND_COLORS: Record<SourceKind, number> = {
+  attractor: 0x7fa8ff,
+  repulsor: 0xff8a66,
+  vortex: 0xc79bff,
+};
+
+const CORE_OPACITY = 0.55;
+const REACH_OPACITY = 0.12;
+
+interface Marker {
+  /** Kind the marker was built for — sources can change kind in place */
+  kind: SourceKind;
+  group: THREE.Group;
+  core: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>;
+  reach: THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>;
+}
+
+export class SourceMarkers {
+  readonly group = new THREE.Group();
+
+  private markers = new Map<FieldSource, Marker>();
+  private coreGeometry = new THREE.RingGeometry(0.35, 0.6, 32);
+  // Vortex cores are open rings so their spin is visible
+  private vortexGeometry = new THREE.RingGeometry(0.35, 0.6, 32, 1, 0, Math.PI * 1.5);
+  private reachGeometry = new THREE.RingGeometry(0.985, 1, 96);
+
+  private material(kind: SourceKind): THREE.MeshBasicMaterial {
+    return new THREE.MeshBasicMaterial({
+      color: KIND_COLORS[kind],
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+  }
+
+  private create(source: FieldSource): Marker {
+    const group = new THREE.Group();
+    const core = new THREE.Mesh(
+      source.kind === 'vortex' ? this.vortexGeometry : this.coreGeometry,
+      this.material(source.kind)
+    );
+    const reach = new THREE.Mesh(this.reachGeometry, this.material(source.kind));
+    group.add(core, reach);
+    this.group.add(group);
+    return { kind: source.kind, group, core, reach };
+  }
+
+  private dispose(marker: Marker) {
+    this.group.remove(marker.group);
+    marker.core.material.dispose();
+    marker.reach.material.dispose();
+  }
+
+  /** Matches markers to `sources`, adding and removing as needed. */
+  update(sources: FieldSource[], highlighted: FieldSource | null, time: number) {
+    for (const [source, marker] of this.markers) {
+      if (!sources.includes(source)) {
+        this.dispose(marker);
+        this.markers.delete(source);
+      }
+    }
+
+    for (const source of sources) {
+      let marker = this.markers.get(source);
+      if (marker && marker.kind !== source.kind) {
+        this.dispose(marker);
+        marker = undefined;
+      }
+      if (!marker) {
+        marker = this.create(source);
+        this.markers.set(source, marker);
+      }
+      const fade = sourceFade(source);
+      const glow = source === highlighted ? 1.6 : 1;
+      marker.group.position.set(source.x, source.y, source.z);
+      marker.reach.scale.setScalar(source.radius);
+      marker.core.scale.setScalar(0.7 + source.strength * 0.3);
+      marker.core.material.opacity = CORE_OPACITY * fade * glow;
+      marker.reach.material.opacity = REACH_OPACITY * fade * glow;
+      if (source.kind === 'vortex') marker.core.rotation.z = -time * source.strength * 2;
+    }
+  }
+}
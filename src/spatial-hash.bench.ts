@@ -0,0 +1,65 @@
+// ─── Spatial Hash Benchmark ───────────────────────────────
+// Compares brute-force scans with grid queries at the two COUNT levels
+// the app uses. Run `npm run bench` in Node, or open /bench.html under
+// `npm run dev` to measure in a browser.
+
+import { ParticleSimulation } from './simulation.ts';
+
+const COUNTS = [30_000, 75_000];
+const RUNS = 200;
+
+function time(fn: () => void): number {
+  fn(); // warm up
+  const start = performance.now();
+  for (let r = 0; r < RUNS; r++) fn();
+  return (performance.now() - start) / RUNS;
+}
+
+function bruteRadius(p: Float32Array, count: number, x: number, y: number, radius: number): number {
+  const r2 = radius * radius;
+  let hits = 0;
+  for (let i = 0; i < count; i++) {
+    const dx = p[i * 3] - x;
+    const dy = p[i * 3 + 1] - y;
+    if (dx * dx + dy * dy < r2) hits++;
+  }
+  return hits;
+}
+
+function bruteNearest(p: Float32Array, count: number, x: number, y: number, z: number): number {
+  let best = -1;
+  let bestD2 = Infinity;
+  for (let i = 0; i < count; i++) {
+    const dx = p[i * 3] - x;
+    const dy = p[i * 3 + 1] - y;
+    const dz = p[i * 3 + 2] - z;
+    const d2 = dx * dx + dy * dy + dz * dz;
+    if (d2 < bestD2) { bestD2 = d2; best = i; }
+  }
+  return best;
+}
+
+export function runSpatialHashBench(log: (line: string) => void) {
+  const ms = (v: number) => `${v.toFixed(3)} ms`;
+
+  for (const count of COUNTS) {
+    const sim = new ParticleSimulation(count, { seed: 1 });
+    for (let i = 0; i < 120; i++) sim.step(1 / 60);
+
+    const { positions, grid } = sim;
+    const out = new Int32Array(count);
+    let sink = 0;
+
+    const brute = time(() => { sink += bruteRadius(positions, count, 6, -4, 12); });
+    const hashed = time(() => { sink += grid.queryRadius(positions, 6, -4, null, 12, out); });
+    const bruteNn = time(() => { sink += bruteNearest(positions, count, 6, -4, 2); });
+    const hashedNn = time(() => { sink += grid.nearest(positions, 6, -4, 2); });
+    const update = time(() => { sim.step(1 / 60); });
+
+    log(`${count.toLocaleString()} particles`);
+    log(`  burst radius  brute ${ms(brute)}  grid ${ms(hashed)}  ×${(brute / hashed).toFixed(1)}`);
+    log(`  nearest       brute ${ms(bruteNn)}  grid ${ms(hashedNn)}  ×${(bruteNn / hashedNn).toFixed(1)}`);
+    log(`  full step incl. grid update ${ms(update)}`);
+    if (sink === -1) log(''); // keep results observable so nothing is optimized away
+  }
+}
@@ -0,0 +1,199 @@
+// ─── Spatial Hash ─────────────────────────────────────────
+// Uniform grid over a box centered on the origin. Each cell keeps an
+// intrusive doubly linked list of particle indices, so `update` only
+// touches particles that crossed into a different cell since last step.
+// Anything outside the box is filed under the nearest edge cell, which
+// keeps queries exact (they always re-check the true distance).
+
+export class SpatialHash {
+  readonly cellSize: number;
+  readonly dims: [number, number, number];
+
+  private half: [number, number, number];
+  private inv: number;
+  private head: Int32Array;
+  private next: Int32Array;
+  private prev: Int32Array;
+  private cellOf: Int32Array;
+  private count = 0;
+
+  constructor(cellSize: number, halfExtents: [number, number, number], capacity: number) {
+    this.cellSize = cellSize;
+    this.inv = 1 / cellSize;
+    this.half = halfExtents;
+    this.dims = halfExtents.map((h) => Math.max(1, Math.ceil((h * 2) / cellSize))) as [number, number, number];
+    this.head = new Int32Array(this.dims[0] * this.dims[1] * this.dims[2]).fill(-1);
+    this.next = new Int32Array(capacity);
+    this.prev = new Int32Array(capacity);
+    this.cellOf = new Int32Array(capacity).fill(-1);
+  }
+
+  private axis(v: number, a: number): number {
+    const c = Math.floor((v + this.half[a]) * this.inv);
+    return c < 0 ? 0 : c >= this.dims[a] ? this.dims[a] - 1 : c;
+  }
+
+  private cellIndex(cx: number, cy: number, cz: number): number {
+    return (cz * this.dims[1] + cy) * this.dims[0] + cx;
+  }
+
+  private unlink(i: number) {
+    const c = this.cellOf[i];
+    const p = this.prev[i];
+    const n = this.next[i];
+    if (p >= 0) this.next[p] = n;
+    else this.head[c] = n;
+    if (n >= 0) this.prev[n] = p;
+  }
+
+  private link(i: number, c: number) {
+    const h = this.head[c];
+    this.prev[i] = -1;
+    this.next[i] = h;
+    if (h >= 0) this.prev[h] = i;
+    this.head[c] = i;
+    this.cellOf[i] = c;
+  }
+
+  /** Re-files particles `0..count-1` whose cell changed. Returns how many moved. */
+  update(positions: Float32Array, count: number): number {
+    // Particles past the new count leave the grid
+    for (let i = count; i < this.count; i++) {
+      if (this.cellOf[i] >= 0) {
+        this.unlink(i);
+        this.cellOf[i] = -1;
+      }
+    }
+    this.count = count;
+
+    // Hot path — axis() inlined; truncation is fine since negatives clamp to 0
+    const [hx, hy, hz] = this.half;
+    const [nx, ny, nz] = this.dims;
+    const inv = this.inv;
+    let moved = 0;
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      let cx = ((positions[i3] + hx) * inv) | 0;
+      let cy = ((positions[i3 + 1] + hy) * inv) | 0;
+      let cz = ((positions[i3 + 2] + hz) * inv) | 0;
+      cx = cx < 0 ? 0 : cx >= nx ? nx - 1 : cx;
+      cy = cy < 0 ? 0 : cy >= ny ? ny - 1 : cy;
+      cz = cz < 0 ? 0 : cz >= nz ? nz - 1 : cz;
+      const c = (cz * ny + cy) * nx + cx;
+      const old = this.cellOf[i];
+      if (c === old) continue;
+      if (old >= 0) this.unlink(i);
+      this.link(i, c);
+      moved++;
+    }
+    return moved;
+  }
+
+  /**
+   * Collects indices within `radius` of (x, y, z) into `out`, stopping at
+   * `out.length`. Pass `z = null` to ignore depth (a cylinder along Z).
+   * Returns the number written.
+   */
+  queryRadius(
+    positions: Float32Array,
+    x: number,
+    y: number,
+    z: number | null,
+    radius: number,
+    out: Int32Array
+  ): number {
+    const r2 = radius * radius;
+    const x0 = this.axis(x - radius, 0), x1 = this.axis(x + radius, 0);
+    const y0 = this.axis(y - radius, 1), y1 = this.axis(y + radius, 1);
+    const z0 = z === null ? 0 : this.axis(z - radius, 2);
+    const z1 = z === null ? this.dims[2] - 1 : this.axis(z + radius, 2);
+    let n = 0;
+
+    for (let cz = z0; cz <= z1; cz++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        for (let cx = x0; cx <= x1; cx++) {
+          for (let i = this.head[this.cellIndex(cx, cy, cz)]; i >= 0; i = this.next[i]) {
+            const i3 = i * 3;
+            const dx = positions[i3] - x;
+            const dy = positions[i3 + 1] - y;
+            const dz = z === null ? 0 : positions[i3 + 2] - z;
+            if (dx * dx + dy * dy + dz * dz < r2) {
+              out[n++] = i;
+              if (n === out.length) return n;
+            }
+          }
+        }
+      }
+    }
+    return n;
+  }
+
+  /**
+   * Collects up to `out.length` other particles filed in the same cell as
+   * particle `i`. Far cheaper than `queryRadius` for forces shorter than a
+   * cell, at the price of missing neighbors just across a cell wall.
+   * Returns the number written.
+   */
+  cellmates(i: number, out: Int32Array): number {
+    const c = this.cellOf[i];
+    if (c < 0) return 0;
+    let n = 0;
+    for (let j = this.head[c]; j >= 0 && n < out.length; j = this.next[j]) {
+      if (j !== i) out[n++] = j;
+    }
+    return n;
+  }
+
+  /**
+   * Index of the particle closest to (x, y, z), or -1 if none lies within
+   * `maxRadius`. Searches outward shell by shell. `exclude` skips one index
+   * (e.g. the particle asking).
+   */
+  nearest(
+    positions: Float32Array,
+    x: number,
+    y: number,
+    z: number,
+    maxRadius = Infinity,
+    exclude = -1
+  ): number {
+    const cx = this.axis(x, 0), cy = this.axis(y, 1), cz = this.axis(z, 2);
+    const maxShell = Math.max(...this.dims);
+    let best = -1;
+    let bestD2 = maxRadius * maxRadius;
+
+    for (let s = 0; s <= maxShell; s++) {
+      // Everything in shell s is at least (s - 1) cells away
+      const minDist = (s - 1) * this.cellSize;
+      if (s > 1 && minDist * minDist >= bestD2) break;
+
+      for (let dz = -s; dz <= s; dz++) {
+        const z2 = cz + dz;
+        if (z2 < 0 || z2 >= this.dims[2]) continue;
+        for (let dy = -s; dy <= s; dy++) {
+          const y2 = cy + dy;
+          if (y2 < 0 || y2 >= this.dims[1]) continue;
+          for (let dx = -s; dx <= s; dx++) {
+            // Only the surface of the shell — the inside was searched already
+            if (Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) !== s) continue;
+            const x2 = cx + dx;
+            if (x2 < 0 || x2 >= this.dims[0]) continue;
+            for (let i = this.head[this.cellIndex(x2, y2, z2)]; i >= 0; i = this.next[i]) {
+              if (i === exclude) continue;
+              const i3 = i * 3;
+              const ex = positions[i3] - x;
+              const ey = positions[i3 + 1] - y;
+              const ez = positions[i3 + 2] - z;
+              const d2 = ex * ex + ey * ey + ez * ez;
+              if (d2 < bestD2) {
+                bestD2 = d2;
+                best = i;
+              }
+            }
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,42 @@
+// ─── Spline ───────────────────────────────────────────────
+// Smooth interpolation through timed keys: cubic Hermite segments with
+// Catmull-Rom style tangents, averaged per second so unevenly spaced keys
+// don't overshoot. Motion eases in at the first key and out at the last.
+
+export interface TimedKey {
+  /** Seconds */
+  time: number;
+}
+
+/** Slope at key `i`, in value per second */
+function tangent<K extends TimedKey>(keys: readonly K[], i: number, read: (key: K) => number): number {
+  if (i === 0 || i === keys.length - 1) return 0;
+  const before = (read(keys[i]) - read(keys[i - 1])) / Math.max(1e-6, keys[i].time - keys[i - 1].time);
+  const after = (read(keys[i + 1]) - read(keys[i])) / Math.max(1e-6, keys[i + 1].time - keys[i].time);
+  return (before + after) / 2;
+}
+
+/**
+ * The value at `time` along keys sorted by time, with `read` picking the
+ * value out of each key. Holds the first and last values outside the range.
+ */
+export function sampleSpline<K extends TimedKey>(keys: readonly K[], time: number, read: (key: K) => number): number {
+  if (keys.length === 0) return 0;
+  if (time <= keys[0].time) return read(keys[0]);
+  const last = keys.length - 1;
+  if (time >= keys[last].time) return read(keys[last]);
+
+  let i = 0;
+  while (keys[i + 1].time < time) i++;
+  const a = keys[i];
+  const b = keys[i + 1];
+  const h = b.time - a.time;
+  if (h <= 0) return read(b);
+  const s = (time - a.time) / h;
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * read(a)
+    + (s3 - 2 * s2 + s) * h * tangent(keys, i, read)
+    + (-2 * s3 + 3 * s2) * read(b)
+    + (s3 - s2) * h * tangent(keys, i + 1, read);
+}
@@ -0,0 +1,157 @@
+// ─── Timeline ─────────────────────────────────────────────
+// Plays a choreography: fires cues as the playhead passes them and reports
+// the splined camera and automation values each update. Time comes from
+// the caller — the show clock below follows the audio clock while sound
+// runs, so cues stay locked to what the audience hears. No DOM dependency.
+
+import { sampleSpline } from './spline.ts';
+import { CameraPath } from './camera-path.ts';
+import type { CameraPose } from './camera-rig.ts';
+import type { AutomatedParam, Choreography, Cue } from './choreography.ts';
+
+export type AutomatedValues = Partial<Record<AutomatedParam, number>>;
+
+export interface TimelineCallbacks {
+  onCue(cue: Cue): void;
+  /** Called on every update while the show has a camera track */
+  onCamera(pose: CameraPose): void;
+  /** Automated values at the playhead — empty when nothing is automated */
+  onAutomation(values: AutomatedValues): void;
+  /** Playback reached the end of a show that doesn't loop */
+  onEnd(): void;
+}
+
+/**
+ * Seconds on the audio clock while `audioTime` returns one, on the page
+ * clock otherwise. Switching between the two never jumps.
+ */
+export class ShowClock {
+  private source: 'audio' | 'page' | null = null;
+  private offset = 0;
+  private last = 0;
+
+  constructor(private audioTime: () => number | null) {}
+
+  now(): number {
+    const audio = this.audioTime();
+    const source = audio === null ? 'page' : 'audio';
+    const raw = audio ?? performance.now() / 1000;
+    if (source !== this.source) {
+      this.offset = this.source === null ? -raw : this.last - raw;
+      this.source = source;
+    }
+    this.last = raw + this.offset;
+    return this.last;
+  }
+}
+
+export class Timeline {
+  private _show: Choreography;
+  private _position = 0;
+  private _playing = false;
+  /** Index of the next cue to fire */
+  private next = 0;
+  private lastNow = 0;
+  private path = new CameraPath();
+
+  constructor(show: Choreography, private callbacks: TimelineCallbacks) {
+    this._show = show;
+    this.path.keyframes = show.camera;
+  }
+
+  get show(): Choreography {
+    return this._show;
+  }
+
+  get position(): number {
+    return this._position;
+  }
+
+  get duration(): number {
+    return this._show.duration;
+  }
+
+  get playing(): boolean {
+    return this._playing;
+  }
+
+  get hasCamera(): boolean {
+    return this._show.camera.length > 0;
+  }
+
+  /** Swaps in a new show, stopped at the start */
+  load(show: Choreography) {
+    this._show = show;
+    this.path.keyframes = show.camera;
+    this._playing = false;
+    this._position = 0;
+    this.next = 0;
+  }
+
+  play(now: number) {
+    if (this._position >= this.duration) this.seek(0);
+    this._playing = true;
+    this.lastNow = now;
+  }
+
+  pause() {
+    this._playing = false;
+  }
+
+  /**
+   * Jumps to `time`. The latest mode and color cues before it take effect
+   * at once; bursts in between are skipped.
+   */
+  seek(time: number) {
+    this._position = Math.max(0, Math.min(this.duration, time));
+    const { cues } = this._show;
+    this.next = cues.findIndex((c) => c.time > this._position);
+    if (this.next < 0) this.next = cues.length;
+
+    const passed = cues.slice(0, this.next).reverse();
+    const mode = passed.find((c) => c.type === 'mode');
+    const color = passed.find((c) => c.type === 'color');
+    if (mode) this.callbacks.onCue(mode);
+    if (color) this.callbacks.onCue(color);
+    this.emit();
+  }
+
+  update(now: number) {
+    if (!this._playing) return;
+    this._position += Math.max(0, now - this.lastNow);
+    this.lastNow = now;
+
+    const { duration, loop } = this._show;
+    if (this._position >= duration) {
+      this.fireUntil(duration);
+      if (loop && duration > 0) {
+        this._position %= duration;
+        this.next = 0;
+      } else {
+        this._position = duration;
+        this._playing = false;
+        this.emit();
+        this.callbacks.onEnd();
+        return;
+      }
+    }
+    this.fireUntil(this._position);
+    this.emit();
+  }
+
+  private fireUntil(time: number) {
+    const { cues } = this._show;
+    while (this.next < cues.length && cues[this.next].time <= time) {
+      this.callbacks.onCue(cues[this.next++]);
+    }
+  }
+
+  private emit() {
+    if (this.hasCamera) this.callbacks.onCamera(this.path.sample(this._position));
+    const values: AutomatedValues = {};
+    for (const [param, track] of Object.entries(this._show.automation)) {
+      values[param as AutomatedParam] = sampleSpline(track, this._position, (k) => k.value);
+    }
+    this.callbacks.onAutomation(values);
+  }
+}
@@ -0,0 +1,134 @@
+// ─── Trail Pass ───────────────────────────────────────────
+// Motion trails as a feedback pass: each frame keeps the brighter of the
+// new image and the last output faded a little, so moving particles leave
+// streaks behind them. The fade is timed in seconds, independent of the
+// frame rate, and a subtractive cut stops the faint tail from lingering.
+
+import * as THREE from 'three';
+import { FullScreenQuad, Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+
+const VERT = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const FEEDBACK_FRAG = /* glsl */ `
+  uniform sampler2D tNew;
+  uniform sampler2D tOld;
+  uniform float uKeep;
+  uniform float uCut;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 old = max(texture2D(tOld, vUv) * uKeep - uCut, 0.0);
+    gl_FragColor = max(texture2D(tNew, vUv), old);
+  }
+`;
+
+const COPY_FRAG = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(tDiffuse, vUv);
+  }
+`;
+
+/** Brightness per second the cut removes at `fade` 1 */
+const MAX_CUT = 0.6;
+
+export class TrailPass extends Pass {
+  /** Seconds for a trail to fade to a tenth; 0 lets nothing through from earlier frames */
+  length = 0;
+  /** 0–1: how hard the faint tail is cut off */
+  fade = 0;
+
+  private current: THREE.WebGLRenderTarget;
+  private previous: THREE.WebGLRenderTarget;
+  private feedback: THREE.ShaderMaterial;
+  private copy: THREE.ShaderMaterial;
+  private feedbackQuad: FullScreenQuad;
+  private copyQuad: FullScreenQuad;
+  /** Set when the previous frame holds nothing worth keeping */
+  private stale = true;
+
+  constructor(width: number, height: number) {
+    super();
+    const options = { type: THREE.HalfFloatType, depthBuffer: false };
+    this.current = new THREE.WebGLRenderTarget(width, height, options);
+    this.previous = new THREE.WebGLRenderTarget(width, height, options);
+
+    this.feedback = new THREE.ShaderMaterial({
+      uniforms: {
+        tNew: { value: null },
+        tOld: { value: null },
+        uKeep: { value: 0 },
+        uCut: { value: 0 },
+      },
+      vertexShader: VERT,
+      fragmentShader: FEEDBACK_FRAG,
+      blending: THREE.NoBlending,
+      depthTest: false,
+      depthWrite: false,
+    });
+    this.copy = new THREE.ShaderMaterial({
+      uniforms: { tDiffuse: { value: null } },
+      vertexShader: VERT,
+      fragmentShader: COPY_FRAG,
+      blending: THREE.NoBlending,
+      depthTest: false,
+      depthWrite: false,
+    });
+    this.feedbackQuad = new FullScreenQuad(this.feedback);
+    this.copyQuad = new FullScreenQuad(this.copy);
+  }
+
+  /** Drops what the trails hold — call before putting the pass back after a break */
+  reset() {
+    this.stale = true;
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number
+  ) {
+    const dt = Math.min(Math.max(deltaTime, 0), 0.1);
+    const u = this.feedback.uniforms;
+    u.tNew.value = readBuffer.texture;
+    u.tOld.value = this.previous.texture;
+    u.uKeep.value = this.stale || this.length <= 0 ? 0 : 0.1 ** (dt / this.length);
+    u.uCut.value = this.fade * MAX_CUT * dt;
+    this.stale = false;
+
+    renderer.setRenderTarget(this.current);
+    this.feedbackQuad.render(renderer);
+
+    this.copy.uniforms.tDiffuse.value = this.current.texture;
+    renderer.setRenderTarget(this.renderToScreen ? null : writeBuffer);
+    if (!this.renderToScreen && this.clear) renderer.clear();
+    this.copyQuad.render(renderer);
+
+    [this.current, this.previous] = [this.previous, this.current];
+  }
+
+  setSize(width: number, height: number) {
+    this.current.setSize(width, height);
+    this.previous.setSize(width, height);
+    this.stale = true;
+  }
+
+  dispose() {
+    this.current.dispose();
+    this.previous.dispose();
+    this.feedback.dispose();
+    this.copy.dispose();
+    this.feedbackQuad.dispose();
+    this.copyQuad.dispose();
+  }
+}
@@ -0,0 +1,40 @@
+// ─── WAV Encoding ─────────────────────────────────────────
+// 16-bit PCM RIFF/WAVE from planar float channels (e.g. an AudioBuffer's
+// channel data). No Web Audio dependency.
+
+const HEADER_BYTES = 44;
+
+/** Interleaves `channels` (equal lengths, samples in -1…1) into a WAV file */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const channelCount = channels.length;
+  const frames = channelCount > 0 ? channels[0].length : 0;
+  const dataBytes = frames * channelCount * 2;
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  ascii(0, 'RIFF');
+  view.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * 2, true); // byte rate
+  view.setUint16(32, channelCount * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  ascii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const s = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return view.buffer;
+}
@@ -1,5 +1,15 @@
 import { defineConfig } from 'vite';
 
+// Cross-origin isolation unlocks SharedArrayBuffer, which lets the
+// particle simulation run in a worker (see src/simulation-host.ts)
+const isolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+};
+
 export default defineConfig({
   base: './',
+  server: { headers: isolationHeaders },
+  preview: { headers: isolationHeaders },
+  worker: { format: 'es' },
 });